@@ -1,7 +1,14 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import * as vscode from 'vscode';
-import { ExtensionMessage, FlowSummary, MalformedComment, WebviewMessage } from './types';
+import { RefDocumentProvider } from './refDocuments';
+import {
+  ExtensionMessage,
+  FlowSummary,
+  HydrationResults,
+  MalformedComment,
+  WebviewMessage,
+} from './types';
 
 // Must match webview-ui/vite.config.ts. Override with FLOWRIDER_DEV_PORT env var.
 const DEV_SERVER_PORT = parseInt(process.env.FLOWRIDER_DEV_PORT || '5199', 10);
@@ -13,6 +20,8 @@ export class FlowViewProvider implements vscode.WebviewViewProvider {
   private view?: vscode.WebviewView;
   private flows: FlowSummary[] = [];
   private malformed: MalformedComment[] = [];
+  private hydration: HydrationResults | null = null; // kept so a re-opened view still shows it
+  private overlayKeys: string[] = [];
 
   constructor(
     private readonly context: vscode.ExtensionContext,
@@ -44,31 +53,77 @@ export class FlowViewProvider implements vscode.WebviewViewProvider {
       console.log('FlowViewProvider received message:', message);
       if (message.type === 'openLocation') {
         console.log('Opening file:', message.filePath, 'at line:', message.lineNumber);
-        await this.openFileAtLine(message.filePath, message.lineNumber);
+        await this.openFileAtLine(message.filePath, message.lineNumber, message.folder, message.ref);
       }
 
       if (message.type === 'requestFlows') {
         this.pushFlows();
+        this.postHydration();
+        this.postOverlays();
       }
 
       if (message.type === 'writeFlowToDb') {
-        await vscode.commands.executeCommand('flowrider.writeFlowToDb', message.flowName);
+        await vscode.commands.executeCommand('flowrider.writeFlowToDb', message.flowName, message.folder);
       }
 
       if (message.type === 'findMissingEdgeCandidates') {
-        await vscode.commands.executeCommand('flowrider.findMissingEdgeCandidates', message.flowName, message.edge);
+        await vscode.commands.executeCommand('flowrider.findMissingEdgeCandidates', message.flowName, message.edge, message.folder);
       }
 
       if (message.type === 'insertMissingComment') {
-        await vscode.commands.executeCommand('flowrider.insertMissingComment', message.flowName, message.edge);
+        await vscode.commands.executeCommand('flowrider.insertMissingComment', message.flowName, message.edge, message.folder);
       }
 
       if (message.type === 'insertAtCandidate') {
-        await vscode.commands.executeCommand('flowrider.insertAtCandidate', message.flowName, message.edge, message.line);
+        await vscode.commands.executeCommand('flowrider.insertAtCandidate', message.flowName, message.edge, message.line, message.folder, message.filePath);
       }
 
       if (message.type === 'findMovedEdgeCandidates') {
-        await vscode.commands.executeCommand('flowrider.findMovedEdgeCandidates', message.flowName, message.edge);
+        await vscode.commands.executeCommand('flowrider.findMovedEdgeCandidates', message.flowName, message.edge, message.folder);
+      }
+
+      if (message.type === 'acceptMovedSource') {
+        await vscode.commands.executeCommand('flowrider.acceptMovedSource', message.flowName, message.edge, message.folder);
+      }
+
+      if (message.type === 'moveCommentToCandidate') {
+        await vscode.commands.executeCommand('flowrider.moveCommentToCandidate', message.flowName, message.edge, message.line, message.folder, message.filePath);
+      }
+
+      if (message.type === 'acceptAllMovedSources') {
+        await vscode.commands.executeCommand('flowrider.acceptAllMovedSources', message.flowName, message.folder);
+      }
+
+      if (message.type === 'moveAllMovedToCandidates') {
+        await vscode.commands.executeCommand('flowrider.moveAllMovedToCandidates', message.flowName, message.folder);
+      }
+
+      if (message.type === 'traceAnnotationHistory') {
+        await vscode.commands.executeCommand('flowrider.traceAnnotationHistory', message.flowName, message.edge, message.folder);
+      }
+
+      if (message.type === 'hydrateFlow') {
+        await vscode.commands.executeCommand('flowrider.hydrateFlow', message.flowName, message.folder);
+      }
+
+      if (message.type === 'hydrateFlowAtRef') {
+        await vscode.commands.executeCommand('flowrider.hydrateFlowAtRef', message.flowName, message.folder);
+      }
+
+      if (message.type === 'applyAutoResolutions') {
+        await vscode.commands.executeCommand('flowrider.applyAutoResolutions', message.flowName, message.folder);
+      }
+
+      if (message.type === 'applyHydrationCandidate') {
+        await vscode.commands.executeCommand('flowrider.applyHydrationCandidate', message.flowName, message.annotationId, message.line, message.folder, message.filePath);
+      }
+
+      if (message.type === 'clearHydration') {
+        await vscode.commands.executeCommand('flowrider.clearHydration');
+      }
+
+      if (message.type === 'toggleFlowOverlay') {
+        await vscode.commands.executeCommand('flowrider.toggleFlowOverlay', message.flowName, message.folder);
       }
     });
 
@@ -114,11 +169,48 @@ export class FlowViewProvider implements vscode.WebviewViewProvider {
     this.view.webview.postMessage(payload);
   }
 
-  private async openFileAtLine(filePath: string, line: number) {
-    const workspaceFolders = vscode.workspace.workspaceFolders;
-    const root = workspaceFolders && workspaceFolders[0]?.uri.fsPath;
+  pushHydration(data: HydrationResults | null) {
+    this.hydration = data;
+    this.postHydration();
+  }
+
+  private postHydration() {
+    if (!this.view) {
+      return;
+    }
+    const payload: ExtensionMessage = {
+      type: 'hydrationResults',
+      data: this.hydration,
+    };
+    this.view.webview.postMessage(payload);
+  }
+
+  pushOverlays(flowKeys: string[]) {
+    this.overlayKeys = flowKeys;
+    this.postOverlays();
+  }
+
+  private postOverlays() {
+    if (!this.view) {
+      return;
+    }
+    const payload: ExtensionMessage = {
+      type: 'overlaysChanged',
+      flowKeys: this.overlayKeys,
+    };
+    this.view.webview.postMessage(payload);
+  }
+
+  /** With `ref`, opens the file as it is at that git ref (read-only). */
+  private async openFileAtLine(filePath: string, line: number, folderId?: string, ref?: string) {
+    // DB paths are relative to the folder the flow belongs to
+    const workspaceFolders = vscode.workspace.workspaceFolders ?? [];
+    const folder =
+      workspaceFolders.find((candidate) => candidate.uri.toString() === folderId) ??
+      workspaceFolders[0];
+    const root = folder?.uri.fsPath;
     const resolved = path.isAbsolute(filePath) || !root ? filePath : path.join(root, filePath);
-    const uri = vscode.Uri.file(resolved);
+    const uri = ref ? RefDocumentProvider.uriFor(resolved, ref) : vscode.Uri.file(resolved);
     const document = await vscode.workspace.openTextDocument(uri);
     const editor = await vscode.window.showTextDocument(document);
     const position = new vscode.Position(line - 1, 0);
@@ -1,8 +1,110 @@
+import * as crypto from 'crypto';
 import * as path from 'path';
 import * as ts from 'typescript';
-import { SymbolIndex, SymbolRange } from './types';
+import { AnchorNode, AnchorTree, anchorAfterLine } from './astAnchor';
+import { AstAnchor, SymbolIndex, SymbolRange } from './types';
 
-const SUPPORTED_EXTENSIONS = new Set(['.ts', '.tsx', '.js', '.jsx']);
+/**
+ * Builds symbol ranges for the languages it claims. Paths use dots for
+ * nesting (`Class.method`) whatever the language's own separator is, so
+ * annotations stay comparable across backends.
+ */
+export interface SymbolIndexProvider {
+  readonly extensions: readonly string[]; // lower-case, including the dot
+  buildIndex(filePath: string, content: string): SymbolIndex | undefined;
+  /** Optional: syntax tree for structural anchors (see astAnchor.ts). */
+  buildAnchorTree?(filePath: string, content: string): AnchorTree | undefined;
+}
+
+const providers = new Map<string, SymbolIndexProvider>();
+
+/** Register a provider for its extensions; later registrations win. */
+export function registerSymbolIndexProvider(provider: SymbolIndexProvider): void {
+  for (const ext of provider.extensions) {
+    providers.set(ext, provider);
+  }
+  // Files of these languages may have been cached as unsupported
+  symbolIndexCache.clear();
+}
+
+export interface SymbolCacheStats {
+  size: number;
+  capacity: number;
+  hits: number;
+  misses: number;
+  evictions: number;
+}
+
+interface CacheEntry {
+  hash: string;
+  index?: SymbolIndex;
+  anchorTree?: AnchorTree | null; // null: built, but the language has no anchor support
+}
+
+/**
+ * LRU cache of symbol indexes keyed by file path and content hash, so a file
+ * is parsed once per version no matter how many comments or lookups hit it.
+ * Anchor trees share the entry and are only built when first asked for.
+ * Map insertion order doubles as recency order.
+ */
+export class SymbolIndexCache {
+  private readonly entries = new Map<string, CacheEntry>();
+  private hits = 0;
+  private misses = 0;
+  private evictions = 0;
+
+  constructor(private readonly capacity = 256) {}
+
+  get(filePath: string, content: string): SymbolIndex | undefined {
+    return this.entryFor(filePath, content).index;
+  }
+
+  getAnchorTree(filePath: string, content: string): AnchorTree | undefined {
+    const entry = this.entryFor(filePath, content);
+    if (entry.anchorTree === undefined) {
+      entry.anchorTree = buildAnchorTree(filePath, content) ?? null;
+    }
+    return entry.anchorTree ?? undefined;
+  }
+
+  private entryFor(filePath: string, content: string): CacheEntry {
+    const hash = crypto.createHash('sha1').update(content).digest('hex');
+    const cached = this.entries.get(filePath);
+    if (cached && cached.hash === hash) {
+      this.hits += 1;
+      this.entries.delete(filePath);
+      this.entries.set(filePath, cached);
+      return cached;
+    }
+
+    this.misses += 1;
+    const entry: CacheEntry = { hash, index: buildSymbolIndex(filePath, content) };
+    this.entries.delete(filePath);
+    this.entries.set(filePath, entry);
+    while (this.entries.size > this.capacity) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+      this.evictions += 1;
+    }
+    return entry;
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+
+  stats(): SymbolCacheStats {
+    return {
+      size: this.entries.size,
+      capacity: this.capacity,
+      hits: this.hits,
+      misses: this.misses,
+      evictions: this.evictions,
+    };
+  }
+}
+
+export const symbolIndexCache = new SymbolIndexCache();
 
 function toScriptKind(filePath: string): ts.ScriptKind {
   const ext = path.extname(filePath).toLowerCase();
@@ -34,6 +136,69 @@ function getNodeName(node: ts.Node): string | undefined {
   return undefined;
 }
 
+function unwrapExpression(node: ts.Expression): ts.Expression {
+  let current = node;
+  while (
+    ts.isParenthesizedExpression(current) ||
+    ts.isAsExpression(current) ||
+    ts.isSatisfiesExpression(current)
+  ) {
+    current = current.expression;
+  }
+  return current;
+}
+
+function isFunctionExpressionLike(node: ts.Node): node is ts.ArrowFunction | ts.FunctionExpression {
+  return ts.isArrowFunction(node) || ts.isFunctionExpression(node);
+}
+
+/**
+ * True for initializers that are (or wrap) a function: `() => {}`,
+ * `function () {}`, or a call taking one such as `useCallback(() => {}, [])`.
+ */
+function bindsFunction(initializer: ts.Expression | undefined): boolean {
+  if (!initializer) {
+    return false;
+  }
+  const value = unwrapExpression(initializer);
+  return (
+    isFunctionExpressionLike(value) ||
+    (ts.isCallExpression(value) && value.arguments.some((arg) => isFunctionExpressionLike(arg)))
+  );
+}
+
+/** `useEffect`, `router.get`, `this.app.use`; undefined for anything more dynamic */
+function calleeName(expression: ts.Expression): string | undefined {
+  if (ts.isIdentifier(expression)) {
+    return expression.text;
+  }
+  if (expression.kind === ts.SyntaxKind.ThisKeyword) {
+    return 'this';
+  }
+  if (ts.isPropertyAccessExpression(expression)) {
+    const owner = calleeName(expression.expression);
+    return owner ? `${owner}.${expression.name.text}` : undefined;
+  }
+  return undefined;
+}
+
+/**
+ * Base name for an anonymous callback: `router.get('/login')` when the first
+ * argument is a string literal (route handlers, event names), otherwise just
+ * the callee, to be numbered by the caller (`useEffect#1`).
+ */
+function callbackBaseName(call: ts.CallExpression | ts.NewExpression): {
+  base: string;
+  literal: boolean;
+} {
+  const callee = calleeName(call.expression) ?? 'callback';
+  const first = call.arguments?.[0];
+  if (first && (ts.isStringLiteral(first) || ts.isNoSubstitutionTemplateLiteral(first))) {
+    return { base: `${callee}('${first.text}')`, literal: true };
+  }
+  return { base: callee, literal: false };
+}
+
 function recordRange(source: ts.SourceFile, node: ts.Node, pathParts: string[]): SymbolRange {
   const start = source.getLineAndCharacterOfPosition(node.getStart());
   const end = source.getLineAndCharacterOfPosition(node.getEnd());
@@ -45,12 +210,7 @@ function recordRange(source: ts.SourceFile, node: ts.Node, pathParts: string[]):
   };
 }
 
-export function buildSymbolIndex(filePath: string, content: string): SymbolIndex | undefined {
-  const ext = path.extname(filePath).toLowerCase();
-  if (!SUPPORTED_EXTENSIONS.has(ext)) {
-    return undefined;
-  }
-
+function buildTypeScriptIndex(filePath: string, content: string): SymbolIndex {
   const source = ts.createSourceFile(
     filePath,
     content,
@@ -60,23 +220,58 @@ export function buildSymbolIndex(filePath: string, content: string): SymbolIndex
   );
 
   const byPath = new Map<string, SymbolRange>();
+  // Callback numbering is per enclosing symbol and callee: Parent|useEffect -> 2
+  const callbackCounts = new Map<string, number>();
 
-  const visit = (node: ts.Node, stack: string[]) => {
-    const name = getNodeName(node);
-    const nextStack = name ? [...stack, name] : stack;
+  const synthesizeCallbackName = (
+    call: ts.CallExpression | ts.NewExpression,
+    stack: string[]
+  ): string => {
+    const { base, literal } = callbackBaseName(call);
+    const key = `${stack.join('.')}|${base}`;
+    const count = (callbackCounts.get(key) ?? 0) + 1;
+    callbackCounts.set(key, count);
+    return literal && count === 1 ? base : `${base}#${count}`;
+  };
 
-    if (
+  const visit = (node: ts.Node, stack: string[]) => {
+    let name = getNodeName(node);
+    let isSymbol =
       ts.isClassDeclaration(node) ||
       ts.isFunctionDeclaration(node) ||
       ts.isMethodDeclaration(node) ||
       ts.isConstructorDeclaration(node) ||
       ts.isGetAccessor(node) ||
-      ts.isSetAccessor(node)
+      ts.isSetAccessor(node);
+
+    // `const handleSubmit = async () => {}`, `{ onClick: () => {} }`, `handle = () => {}` in classes
+    if (
+      (ts.isVariableDeclaration(node) ||
+        ts.isPropertyAssignment(node) ||
+        ts.isPropertyDeclaration(node)) &&
+      bindsFunction(node.initializer)
     ) {
-      if (name) {
-        const range = recordRange(source, node, nextStack);
-        byPath.set(range.path, range);
+      if (!name && (ts.isStringLiteral(node.name) || ts.isNumericLiteral(node.name))) {
+        name = node.name.text;
       }
+      isSymbol = true;
+    }
+
+    // Functions passed straight into a call: `useEffect(() => {})`, `app.get('/x', (req) => {})`
+    if (
+      isFunctionExpressionLike(node) &&
+      ts.isCallOrNewExpression(node.parent) &&
+      node.parent.arguments?.includes(node)
+    ) {
+      name ??= synthesizeCallbackName(node.parent, stack);
+      isSymbol = true;
+    }
+
+    const nextStack = name ? [...stack, name] : stack;
+
+    if (isSymbol && name) {
+      const range = recordRange(source, node, nextStack);
+      byPath.set(range.path, range);
     }
 
     ts.forEachChild(node, (child) => visit(child, nextStack));
@@ -87,13 +282,123 @@ export function buildSymbolIndex(filePath: string, content: string): SymbolIndex
   return { byPath };
 }
 
+function normalizeTypeScriptToken(kind: ts.SyntaxKind, text: string): string {
+  if (kind === ts.SyntaxKind.Identifier || kind === ts.SyntaxKind.PrivateIdentifier) {
+    return 'id';
+  }
+  if (
+    (kind >= ts.SyntaxKind.FirstLiteralToken && kind <= ts.SyntaxKind.LastLiteralToken) ||
+    (kind >= ts.SyntaxKind.FirstTemplateToken && kind <= ts.SyntaxKind.LastTemplateToken)
+  ) {
+    return 'lit';
+  }
+  return text;
+}
+
+function buildTypeScriptAnchorTree(filePath: string, content: string): AnchorTree {
+  const scriptKind = toScriptKind(filePath);
+  const source = ts.createSourceFile(filePath, content, ts.ScriptTarget.Latest, true, scriptKind);
+
+  // One scanner pass gives the token stream; nodes map onto it by position
+  const isJsx = scriptKind === ts.ScriptKind.TSX || scriptKind === ts.ScriptKind.JSX;
+  const scanner = ts.createScanner(
+    ts.ScriptTarget.Latest,
+    true,
+    isJsx ? ts.LanguageVariant.JSX : ts.LanguageVariant.Standard,
+    content
+  );
+  const positions: number[] = [];
+  const tokens: string[] = [];
+  // Brace depths at which a template literal resumes after `${ ... }`
+  const templates: number[] = [];
+  let depth = 0;
+  for (let kind = scanner.scan(); kind !== ts.SyntaxKind.EndOfFileToken; kind = scanner.scan()) {
+    if (kind === ts.SyntaxKind.OpenBraceToken) {
+      depth += 1;
+    } else if (kind === ts.SyntaxKind.CloseBraceToken) {
+      if (templates[templates.length - 1] === depth) {
+        kind = scanner.reScanTemplateToken(false);
+        if (kind === ts.SyntaxKind.TemplateTail) {
+          templates.pop();
+        }
+      } else {
+        depth -= 1;
+      }
+    }
+    if (kind === ts.SyntaxKind.TemplateHead) {
+      templates.push(depth);
+    }
+    positions.push(scanner.getTokenStart());
+    tokens.push(normalizeTypeScriptToken(kind, scanner.getTokenText()));
+  }
+  const tokenIndexAt = (pos: number) => {
+    let low = 0;
+    let high = positions.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (positions[mid] < pos) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+    return low;
+  };
+
+  const convert = (node: ts.Node): AnchorNode => {
+    const children: AnchorNode[] = [];
+    ts.forEachChild(node, (child) => {
+      if (child.kind !== ts.SyntaxKind.EndOfFileToken) {
+        children.push(convert(child));
+      }
+    });
+    const start = node.getStart(source);
+    return {
+      kind: ts.SyntaxKind[node.kind],
+      startLine: source.getLineAndCharacterOfPosition(start).line + 1,
+      endLine: source.getLineAndCharacterOfPosition(node.getEnd()).line + 1,
+      tokenStart: tokenIndexAt(start),
+      tokenEnd: tokenIndexAt(node.getEnd()),
+      children,
+    };
+  };
+
+  return { root: convert(source), tokens };
+}
+
+registerSymbolIndexProvider({
+  extensions: ['.ts', '.tsx', '.js', '.jsx'],
+  buildIndex: buildTypeScriptIndex,
+  buildAnchorTree: buildTypeScriptAnchorTree,
+});
+
+export function buildSymbolIndex(filePath: string, content: string): SymbolIndex | undefined {
+  const provider = providers.get(path.extname(filePath).toLowerCase());
+  return provider?.buildIndex(filePath, content);
+}
+
+export function buildAnchorTree(filePath: string, content: string): AnchorTree | undefined {
+  const provider = providers.get(path.extname(filePath).toLowerCase());
+  return provider?.buildAnchorTree?.(filePath, content);
+}
+
+/** Structural anchor for a flow comment on `line`, if the language has a parser. */
+export function inferAstAnchor(
+  filePath: string,
+  content: string,
+  line: number
+): AstAnchor | undefined {
+  const tree = symbolIndexCache.getAnchorTree(filePath, content);
+  return tree ? anchorAfterLine(tree, line) : undefined;
+}
+
 export function inferSymbolAtPosition(
   filePath: string,
   content: string,
   line: number,
   column: number
 ): { symbolPath?: string; nodeType?: string; range?: SymbolRange } {
-  const index = buildSymbolIndex(filePath, content);
+  const index = symbolIndexCache.get(filePath, content);
   if (!index) {
     return {};
   }
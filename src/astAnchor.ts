@@ -0,0 +1,105 @@
+import * as crypto from 'crypto';
+import { AstAnchor } from './types';
+
+/**
+ * Parser-neutral syntax tree used for structural anchors. Each node covers a
+ * slice of the file's normalized token stream so fingerprints can be taken
+ * after the parser's own tree is gone.
+ */
+export interface AnchorNode {
+  kind: string;
+  startLine: number; // 1-based
+  endLine: number;
+  tokenStart: number; // index into AnchorTree.tokens
+  tokenEnd: number; // exclusive
+  children: AnchorNode[]; // syntax children only, comments excluded
+}
+
+export interface AnchorTree {
+  root: AnchorNode;
+  tokens: string[]; // identifiers as `id`, literals as `lit`, everything else verbatim
+}
+
+export interface AnchorMatch {
+  startLine: number; // where the matching node starts in the file
+  score: number;
+  placed: boolean; // parent kind or position within the parent agrees too
+  tokenCount: number; // tokens the fingerprint covers
+}
+
+// Long nodes (whole functions) are fingerprinted by their head only, so edits
+// far down the body do not break the anchor
+const FINGERPRINT_TOKENS = 64;
+
+/**
+ * Fingerprints shorter than this (`id ( ) ;`, `return id ;`) are shared by
+ * many unrelated statements, so they need textual evidence as well.
+ */
+export const MIN_DISTINCTIVE_TOKENS = 8;
+
+function fingerprintTokens(tree: AnchorTree, node: AnchorNode): string[] {
+  const end = Math.min(node.tokenEnd, node.tokenStart + FINGERPRINT_TOKENS);
+  return tree.tokens.slice(node.tokenStart, end);
+}
+
+function fingerprintOf(tree: AnchorTree, node: AnchorNode): string {
+  const text = fingerprintTokens(tree, node).join(' ');
+  return crypto.createHash('sha1').update(text).digest('hex').slice(0, 16);
+}
+
+/**
+ * Anchor for a comment on `line`: descend into the nodes that started before
+ * the line and are still open, then take the first child starting on or after
+ * it. Trailing comments thus anchor to the statement they sit on.
+ */
+export function anchorAfterLine(tree: AnchorTree, line: number): AstAnchor | undefined {
+  let container = tree.root;
+  for (;;) {
+    const enclosing = container.children.find(
+      (child) => child.startLine < line && child.endLine >= line
+    );
+    if (!enclosing) {
+      break;
+    }
+    container = enclosing;
+  }
+
+  const index = container.children.findIndex((child) => child.startLine >= line);
+  if (index < 0) {
+    return undefined;
+  }
+  const node = container.children[index];
+  return {
+    kind: node.kind,
+    parentKind: container.kind,
+    indexInParent: index,
+    fingerprint: fingerprintOf(tree, node),
+    lineOffset: node.startLine - line,
+  };
+}
+
+/**
+ * Nodes matching an anchor's kind and fingerprint. Kind and fingerprint alone
+ * only make a candidate; same parent kind and same position within the parent
+ * each raise the score by 0.1.
+ */
+export function findAnchorMatches(tree: AnchorTree, anchor: AstAnchor): AnchorMatch[] {
+  const matches: AnchorMatch[] = [];
+  const visit = (parent: AnchorNode) => {
+    parent.children.forEach((node, index) => {
+      if (node.kind === anchor.kind && fingerprintOf(tree, node) === anchor.fingerprint) {
+        const sameParent = parent.kind === anchor.parentKind;
+        const sameIndex = index === anchor.indexInParent;
+        matches.push({
+          startLine: node.startLine,
+          score: 0.8 + (sameParent ? 0.1 : 0) + (sameIndex ? 0.1 : 0),
+          placed: sameParent || sameIndex,
+          tokenCount: fingerprintTokens(tree, node).length,
+        });
+      }
+      visit(node);
+    });
+  };
+  visit(tree.root);
+  return matches;
+}
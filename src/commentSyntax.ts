@@ -0,0 +1,184 @@
+import * as path from 'path';
+
+export interface CommentSyntax {
+  line?: string[];
+  block?: Array<[string, string]>;
+  docstring?: string[]; // string delimiters whose contents count as comments (e.g. Python """)
+  strings?: string[]; // single-line string delimiters; tags inside these are ignored
+  multilineStrings?: string[]; // string delimiters that may span lines (e.g. JS template literals)
+}
+
+export type CommentSyntaxTable = Record<string, CommentSyntax>;
+
+const C_LIKE: CommentSyntax = {
+  line: ['//'],
+  block: [['/*', '*/']],
+  strings: ['"', "'"],
+};
+
+const JS_LIKE: CommentSyntax = { ...C_LIKE, multilineStrings: ['`'] };
+
+const HASH: CommentSyntax = { line: ['#'], strings: ['"', "'"] };
+
+const MARKUP: CommentSyntax = { block: [['<!--', '-->']] };
+
+// Keyed by lower-case file extension including the dot.
+const DEFAULT_TABLE: CommentSyntaxTable = {
+  '.ts': JS_LIKE,
+  '.tsx': JS_LIKE,
+  '.js': JS_LIKE,
+  '.jsx': JS_LIKE,
+  '.mjs': JS_LIKE,
+  '.cjs': JS_LIKE,
+  '.java': C_LIKE,
+  '.c': C_LIKE,
+  '.h': C_LIKE,
+  '.cpp': C_LIKE,
+  '.cc': C_LIKE,
+  '.cxx': C_LIKE,
+  '.hpp': C_LIKE,
+  '.cs': C_LIKE,
+  '.swift': C_LIKE,
+  '.kt': C_LIKE,
+  '.kts': C_LIKE,
+  '.scala': C_LIKE,
+  '.dart': C_LIKE,
+  '.jsonc': C_LIKE,
+  '.go': { ...C_LIKE, multilineStrings: ['`'] },
+  // Single quotes are lifetimes/labels in Rust, not strings
+  '.rs': { ...C_LIKE, strings: ['"'] },
+  '.php': { ...C_LIKE, line: ['//', '#'] },
+  '.css': { block: [['/*', '*/']], strings: ['"', "'"] },
+  '.scss': C_LIKE,
+  '.less': C_LIKE,
+  '.py': { ...HASH, docstring: ['"""', "'''"] },
+  '.rb': { ...HASH, block: [['=begin', '=end']] },
+  '.sh': HASH,
+  '.bash': HASH,
+  '.zsh': HASH,
+  '.yaml': HASH,
+  '.yml': HASH,
+  '.toml': HASH,
+  '.r': HASH,
+  '.pl': HASH,
+  '.ps1': { ...HASH, block: [['<#', '#>']] },
+  '.sql': { line: ['--'], block: [['/*', '*/']], strings: ["'"] },
+  '.lua': { line: ['--'], block: [['--[[', ']]']], strings: ['"', "'"] },
+  '.hs': { line: ['--'], block: [['{-', '-}']], strings: ['"'] },
+  '.html': MARKUP,
+  '.htm': MARKUP,
+  '.xml': MARKUP,
+  '.md': MARKUP,
+  '.vue': { ...JS_LIKE, block: [['/*', '*/'], ['<!--', '-->']] },
+  '.svelte': { ...JS_LIKE, block: [['/*', '*/'], ['<!--', '-->']] },
+};
+
+/**
+ * Resolve the comment syntax for a file. User entries override the built-in
+ * table per extension. Returns undefined for unknown languages, in which case
+ * callers accept the tag anywhere on the line (pre-existing behaviour).
+ */
+export function getCommentSyntax(
+  filePath: string,
+  overrides: CommentSyntaxTable = {}
+): CommentSyntax | undefined {
+  const ext = path.extname(filePath).toLowerCase();
+  if (!ext) {
+    return undefined;
+  }
+  const override = overrides[ext] ?? overrides[ext.slice(1)];
+  return override ?? DEFAULT_TABLE[ext];
+}
+
+function startsWithAt(text: string, token: string, offset: number): boolean {
+  return text.startsWith(token, offset);
+}
+
+/**
+ * Compute [start, end) character ranges of every comment in the text. This is
+ * a deliberately small lexer: it knows about comments and string literals, so
+ * a `//` inside a string is not a comment and a tag inside a string is not
+ * treated as commented.
+ */
+export function findCommentRanges(text: string, syntax: CommentSyntax): Array<[number, number]> {
+  const ranges: Array<[number, number]> = [];
+  // Longest tokens first so `--[[` wins over `--` and `"""` over `"`
+  const byLength = (a: string, b: string) => b.length - a.length;
+  const lineTokens = [...(syntax.line ?? [])].sort(byLength);
+  const blocks = [...(syntax.block ?? [])].sort((a, b) => b[0].length - a[0].length);
+  const docstrings = [...(syntax.docstring ?? [])].sort(byLength);
+  const strings = [...(syntax.strings ?? [])].sort(byLength);
+  const multiline = [...(syntax.multilineStrings ?? [])].sort(byLength);
+
+  let i = 0;
+  const n = text.length;
+
+  const skipString = (delimiter: string, allowNewlines: boolean) => {
+    i += delimiter.length;
+    while (i < n) {
+      const ch = text[i];
+      if (ch === '\\') {
+        i += 2;
+        continue;
+      }
+      if (!allowNewlines && ch === '\n') {
+        return;
+      }
+      if (startsWithAt(text, delimiter, i)) {
+        i += delimiter.length;
+        return;
+      }
+      i += 1;
+    }
+  };
+
+  outer: while (i < n) {
+    const block = blocks.find(([open]) => startsWithAt(text, open, i));
+    if (block) {
+      const close = text.indexOf(block[1], i + block[0].length);
+      const end = close < 0 ? n : close + block[1].length;
+      ranges.push([i, end]);
+      i = end;
+      continue;
+    }
+
+    const docstring = docstrings.find((token) => startsWithAt(text, token, i));
+    if (docstring) {
+      const close = text.indexOf(docstring, i + docstring.length);
+      const end = close < 0 ? n : close + docstring.length;
+      ranges.push([i, end]);
+      i = end;
+      continue;
+    }
+
+    for (const token of lineTokens) {
+      if (startsWithAt(text, token, i)) {
+        const newline = text.indexOf('\n', i);
+        const end = newline < 0 ? n : newline;
+        ranges.push([i, end]);
+        i = end;
+        continue outer;
+      }
+    }
+
+    const multi = multiline.find((token) => startsWithAt(text, token, i));
+    if (multi) {
+      skipString(multi, true);
+      continue;
+    }
+
+    const single = strings.find((token) => startsWithAt(text, token, i));
+    if (single) {
+      skipString(single, false);
+      continue;
+    }
+
+    i += 1;
+  }
+
+  return ranges;
+}
+
+export function isInRanges(offset: number, ranges: Array<[number, number]>): boolean {
+  return ranges.some(([start, end]) => offset >= start && offset < end);
+}
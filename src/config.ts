@@ -1,10 +1,17 @@
 import * as vscode from 'vscode';
+import { CommentSyntaxTable } from './commentSyntax';
+import { MatchThresholds } from './types';
 
 const CONFIG_SECTION = 'flowrider';
 const DEFAULT_TAG = '#@#@#@';
 const DEFAULT_DEBOUNCE_MS = 500;
 const DEFAULT_DB_PATH = '.codeflows/flows.jsonc';
 const DEFAULT_CONTEXT_LINES = 3;
+const DEFAULT_SCANNER: ScannerBackend = 'auto';
+const DEFAULT_EXCLUDE = ['node_modules', 'dist', 'out'];
+const DEFAULT_THRESHOLDS: MatchThresholds = { strict: 0.9, candidate: 0.7, fuzzyMin: 0.6 };
+
+export type ScannerBackend = 'auto' | 'ripgrep' | 'builtin';
 
 export function getFlowTag(): string {
   return vscode.workspace
@@ -34,3 +41,36 @@ export function getContextLineCount(): number {
     .getConfiguration(CONFIG_SECTION)
     .get<number>('contextLines', DEFAULT_CONTEXT_LINES);
 }
+
+export function getScannerBackend(): ScannerBackend {
+  return vscode.workspace
+    .getConfiguration(CONFIG_SECTION)
+    .get<ScannerBackend>('scanner', DEFAULT_SCANNER);
+}
+
+export function getCommentSyntaxOverrides(): CommentSyntaxTable {
+  return vscode.workspace
+    .getConfiguration(CONFIG_SECTION)
+    .get<CommentSyntaxTable>('commentSyntax', {});
+}
+
+export function getIncludeGlobs(): string[] {
+  return vscode.workspace
+    .getConfiguration(CONFIG_SECTION)
+    .get<string[]>('include', []);
+}
+
+export function getExcludeGlobs(): string[] {
+  return vscode.workspace
+    .getConfiguration(CONFIG_SECTION)
+    .get<string[]>('exclude', DEFAULT_EXCLUDE);
+}
+
+export function getMatchThresholds(): MatchThresholds {
+  const config = vscode.workspace.getConfiguration(CONFIG_SECTION);
+  return {
+    strict: config.get<number>('strictThreshold', DEFAULT_THRESHOLDS.strict),
+    candidate: config.get<number>('candidateThreshold', DEFAULT_THRESHOLDS.candidate),
+    fuzzyMin: config.get<number>('fuzzyMinThreshold', DEFAULT_THRESHOLDS.fuzzyMin),
+  };
+}
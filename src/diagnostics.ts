@@ -0,0 +1,203 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { getFlowTag } from './config';
+import { parseFlowComment, parseFlowDeclaration, parseNodeDeclaration } from './flowParser';
+import { FlowSummary, MalformedComment } from './types';
+
+const DIAGNOSTIC_SOURCE = 'FlowRider';
+const MALFORMED_CODE = 'malformed-comment';
+const DUPLICATE_CODE = 'duplicate-edge';
+
+// Block comment closers stay where they are when a fix rewrites the comment body
+const COMMENT_CLOSER = /\s*(?:\*\/|-->)\s*$/;
+const CHAIN_SEPARATOR = /(\s*(?:=\[[^\]]*\]=>|=>|->|,)\s*)/;
+
+interface CommentFix {
+  title: string;
+  apply: (body: string) => string;
+}
+
+function toSnakeCase(name: string): string {
+  return name
+    .trim()
+    .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+    .split(/\s+/)
+    .join('_')
+    .toLowerCase();
+}
+
+const COMMENT_FIXES: CommentFix[] = [
+  {
+    title: "Replace '->' with '=>'",
+    apply: (body) => body.replace(/(?<![=-])->/g, '=>'),
+  },
+  {
+    title: "Add missing ':' after the flow name",
+    apply: (body) =>
+      body.includes(':') || !/=>|->/.test(body)
+        ? body
+        : body.replace(/^(\s*(?:cross\s+)?[^\s:]+)\s+/i, '$1 : '),
+  },
+  {
+    title: 'Convert node names with spaces to snake_case',
+    apply: (body) => {
+      const colon = body.indexOf(':');
+      if (colon < 0) {
+        return body;
+      }
+      const chain = body
+        .slice(colon + 1)
+        .split(CHAIN_SEPARATOR)
+        .map((part, i) =>
+          i % 2 === 0 && /\S\s+\S/.test(part) ? part.replace(/\S(?:.*\S)?/, toSnakeCase) : part
+        )
+        .join('');
+      return body.slice(0, colon + 1) + chain;
+    },
+  },
+];
+
+/**
+ * Quick fixes for a malformed flow comment whose tag starts at `tagStart`.
+ * Each result is the corrected full line. A fix is only offered if the line
+ * parses afterwards; when no single fix is enough but all of them together
+ * are, one combined fix is returned instead.
+ */
+export function suggestCommentFixes(
+  lineText: string,
+  tag: string,
+  tagStart: number
+): Array<{ title: string; lineText: string }> {
+  if (
+    tagStart < 0 ||
+    lineText.slice(tagStart, tagStart + tag.length).toLowerCase() !== tag.toLowerCase()
+  ) {
+    return [];
+  }
+  // Conflicting declarations are reported too, but their syntax is fine
+  const rawText = lineText.slice(tagStart);
+  if (parseNodeDeclaration(rawText, tag) || parseFlowDeclaration(rawText, tag)) {
+    return [];
+  }
+
+  const prefix = lineText.slice(0, tagStart + tag.length);
+  const rest = lineText.slice(tagStart + tag.length);
+  const closer = COMMENT_CLOSER.exec(rest)?.[0] ?? '';
+  const body = rest.slice(0, rest.length - closer.length);
+  const build = (fixedBody: string) => prefix + fixedBody + closer;
+  const parses = (text: string) => parseFlowComment(text, tag) !== undefined;
+
+  const single = COMMENT_FIXES.filter((fix) => fix.apply(body) !== body)
+    .map((fix) => ({ title: fix.title, lineText: build(fix.apply(body)) }))
+    .filter((fix) => parses(fix.lineText));
+  if (single.length > 0) {
+    return single;
+  }
+
+  // Later fixes may only become applicable once earlier ones ran (e.g. the colon)
+  const combined = build(COMMENT_FIXES.reduce((text, fix) => fix.apply(text), body));
+  return parses(combined) ? [{ title: 'Fix all flow comment issues', lineText: combined }] : [];
+}
+
+/**
+ * Publishes malformed comments and duplicate edges to the Problems panel and
+ * offers quick fixes for common flow comment mistakes.
+ */
+export class FlowDiagnostics implements vscode.CodeActionProvider, vscode.Disposable {
+  static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix];
+
+  private readonly collection = vscode.languages.createDiagnosticCollection('flowrider');
+
+  update(malformed: MalformedComment[], flows: FlowSummary[]): void {
+    const tag = getFlowTag().toLowerCase();
+    const byFile = new Map<string, vscode.Diagnostic[]>();
+    const add = (filePath: string, diagnostic: vscode.Diagnostic) => {
+      diagnostic.source = DIAGNOSTIC_SOURCE;
+      const list = byFile.get(filePath) ?? [];
+      list.push(diagnostic);
+      byFile.set(filePath, list);
+    };
+
+    for (const item of malformed) {
+      const start = Math.max(0, (item.column ?? 1) - 1);
+      // rawText is the trimmed line, so the comment runs from the tag to its end
+      const tagIndex = item.rawText.toLowerCase().indexOf(tag);
+      const length = item.rawText.length - Math.max(0, tagIndex);
+      const diagnostic = new vscode.Diagnostic(
+        new vscode.Range(item.lineNumber - 1, start, item.lineNumber - 1, start + length),
+        item.reason,
+        vscode.DiagnosticSeverity.Error
+      );
+      diagnostic.code = MALFORMED_CODE;
+      add(item.filePath, diagnostic);
+    }
+
+    for (const flow of flows) {
+      for (const duplicate of flow.duplicates) {
+        const locations = duplicate.locations.map((location) => ({
+          ...location,
+          range: new vscode.Range(
+            location.lineNumber - 1,
+            location.column - 1,
+            location.lineNumber - 1,
+            Number.MAX_SAFE_INTEGER
+          ),
+        }));
+        for (const location of locations) {
+          const diagnostic = new vscode.Diagnostic(
+            location.range,
+            `Duplicate edge ${duplicate.currentNode} → ${duplicate.nextNode} in flow "${flow.name}" (${locations.length} occurrences)`,
+            vscode.DiagnosticSeverity.Warning
+          );
+          diagnostic.code = DUPLICATE_CODE;
+          diagnostic.relatedInformation = locations
+            .filter((other) => other !== location)
+            .map(
+              (other) =>
+                new vscode.DiagnosticRelatedInformation(
+                  new vscode.Location(vscode.Uri.file(other.filePath), other.range),
+                  `Also declared in ${path.basename(other.filePath)}:${other.lineNumber}`
+                )
+            );
+          add(location.filePath, diagnostic);
+        }
+      }
+    }
+
+    this.collection.clear();
+    for (const [filePath, diagnostics] of byFile) {
+      this.collection.set(vscode.Uri.file(filePath), diagnostics);
+    }
+  }
+
+  provideCodeActions(
+    document: vscode.TextDocument,
+    _range: vscode.Range | vscode.Selection,
+    context: vscode.CodeActionContext
+  ): vscode.CodeAction[] {
+    const tag = getFlowTag();
+    const actions: vscode.CodeAction[] = [];
+
+    for (const diagnostic of context.diagnostics) {
+      if (diagnostic.source !== DIAGNOSTIC_SOURCE || diagnostic.code !== MALFORMED_CODE) {
+        continue;
+      }
+      const line = document.lineAt(diagnostic.range.start.line);
+      const fixes = suggestCommentFixes(line.text, tag, diagnostic.range.start.character);
+      for (const fix of fixes) {
+        const action = new vscode.CodeAction(fix.title, vscode.CodeActionKind.QuickFix);
+        action.diagnostics = [diagnostic];
+        action.isPreferred = fixes.length === 1;
+        action.edit = new vscode.WorkspaceEdit();
+        action.edit.replace(document.uri, line.range, fix.lineText);
+        actions.push(action);
+      }
+    }
+
+    return actions;
+  }
+
+  dispose(): void {
+    this.collection.dispose();
+  }
+}
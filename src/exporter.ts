@@ -1,9 +1,17 @@
 import * as crypto from 'crypto';
 import * as path from 'path';
+import { resolveFlowMetadata, resolveNodeDescriptions, resolveNodeMarkers } from './flowState';
 import { getHeadCommit } from './git';
 import { FlowStore } from './flowStore';
-import { scanWorkspace } from './flowParser';
-import { Annotation, FlowRecord, MalformedComment, ParsedComment } from './types';
+import { scanFile, scanWorkspace } from './flowParser';
+import {
+  Annotation,
+  FlowDeclaration,
+  FlowRecord,
+  MalformedComment,
+  NodeDeclaration,
+  ParsedComment,
+} from './types';
 
 function normalizeRelativePath(relativePath: string): string {
   return relativePath.split(path.sep).join('/');
@@ -13,11 +21,14 @@ function buildAnnotationId(
   repoId: string,
   filePath: string,
   line: number,
-  flowName: string
+  flowName: string,
+  currentNode: string,
+  nextNode: string
 ): string {
+  // Nodes are part of the hash because one comment line can declare several edges
   const hash = crypto
     .createHash('sha1')
-    .update([repoId, filePath, String(line), flowName].join('|'))
+    .update([repoId, filePath, String(line), flowName, currentNode, nextNode].join('|'))
     .digest('hex');
   return `${repoId}::${flowName}::${hash}`;
 }
@@ -27,14 +38,21 @@ export async function exportFlows(
   tag: string,
   contextLines: number,
   targetFlowNames?: Set<string>
-): Promise<{ flows: FlowRecord[]; malformed: MalformedComment[]; parsed: ParsedComment[] }> {
+): Promise<{
+  flows: FlowRecord[];
+  malformed: MalformedComment[];
+  parsed: ParsedComment[];
+  nodes: NodeDeclaration[];
+  flowDeclarations: FlowDeclaration[];
+}> {
   await store.load();
 
   const workspacePath = store.getWorkspacePath();
   const repoId = store.getRepoId();
   const headCommit = await getHeadCommit(workspacePath);
 
-  const scan = await scanWorkspace(tag, contextLines);
+  // Each folder has its own DB, so only scan the folder this store belongs to
+  const scan = await scanWorkspace(tag, contextLines, [store.getWorkspaceFolder()]);
 
   const grouped = new Map<string, Annotation[]>();
 
@@ -44,7 +62,14 @@ export async function exportFlows(
     }
     const relPath = normalizeRelativePath(comment.relativePath);
     const annotation: Annotation = {
-      id: buildAnnotationId(repoId, relPath, comment.line, comment.flowName),
+      id: buildAnnotationId(
+        repoId,
+        relPath,
+        comment.line,
+        comment.flowName,
+        comment.currentNode,
+        comment.nextNode
+      ),
       repoId,
       filePath: relPath,
       commitHash: headCommit,
@@ -56,9 +81,11 @@ export async function exportFlows(
       contextAfter: comment.contextAfter,
       symbolPath: comment.symbolPath ?? null,
       nodeType: comment.nodeType ?? null,
+      astAnchor: comment.astAnchor ?? null,
       flowName: comment.flowName,
       currentNode: comment.currentNode,
       nextNode: comment.nextNode,
+      label: comment.label,
       crossDeclared: comment.crossDeclared,
       note: '',
       rawComment: comment.rawComment,
@@ -70,6 +97,10 @@ export async function exportFlows(
     grouped.set(comment.flowName, list);
   }
 
+  const { byFlow: nodeDescriptions } = resolveNodeDescriptions(scan.nodes);
+  const { byFlow: flowMetadata } = resolveFlowMetadata(scan.flowDeclarations);
+  const nodeMarkers = resolveNodeMarkers(scan.nodes);
+
   const existing = new Map<string, FlowRecord>();
   for (const flow of store.getAllFlows()) {
     existing.set(flow.id, flow);
@@ -83,16 +114,21 @@ export async function exportFlows(
     const isCross = declaredCross;
     const flowId = `${repoId}::${flowName}`;
     const previous = existing.get(flowId);
+    const metadata = flowMetadata.get(flowName);
 
     flows.push({
       id: flowId,
       name: flowName,
-      description: previous?.description ?? '',
-      tags: previous?.tags ?? [],
+      description: metadata?.description ?? previous?.description ?? '',
+      tags: metadata?.tags ?? previous?.tags ?? [],
+      owner: metadata?.owner ?? previous?.owner,
       createdAt: previous?.createdAt ?? now,
       updatedAt: now,
       declaredCross,
       isCross,
+      nodeDescriptions: nodeDescriptions.get(flowName) ?? {},
+      startNodes: nodeMarkers.get(flowName)?.startNodes ?? [],
+      endNodes: nodeMarkers.get(flowName)?.endNodes ?? [],
       annotations: annotations.sort((a, b) => a.line - b.line),
     });
   }
@@ -108,5 +144,103 @@ export async function exportFlows(
   store.setMalformed(scan.malformed);
   await store.save();
 
-  return { flows: store.getAllFlows(), malformed: scan.malformed, parsed: scan.parsed };
+  return {
+    flows: store.getAllFlows(),
+    malformed: scan.malformed,
+    parsed: scan.parsed,
+    nodes: scan.nodes,
+    flowDeclarations: scan.flowDeclarations,
+  };
+}
+
+/** A DB edge, where the DB has it and where its comment is now. */
+export interface EdgeLocation {
+  currentNode: string;
+  nextNode: string;
+  // Identifies the annotation when the flow has the same edge more than once
+  dbLocation: { filePath: string; line: number };
+  filePath: string; // relative to the store's workspace folder
+  line: number; // the comment's line now; the nearest declaring comment is taken
+}
+
+/**
+ * Point DB annotations at where their comments are now, without re-exporting
+ * the flow: only file, line, context, symbol, anchor and commit change, so ids
+ * and the other annotations are left alone. Files with unsaved edits are
+ * skipped, as their line numbers would not match the recorded commit.
+ */
+export async function acceptSourceLocations(
+  store: FlowStore,
+  tag: string,
+  contextLines: number,
+  flowName: string,
+  edges: EdgeLocation[]
+): Promise<{ accepted: number; skipped: string[] }> {
+  await store.load();
+
+  const flow = store.getAllFlows().find((item) => item.name === flowName);
+  if (!flow) {
+    return { accepted: 0, skipped: edges.map((edge) => `${edge.currentNode} → ${edge.nextNode}`) };
+  }
+
+  const workspacePath = store.getWorkspacePath();
+  const headCommit = await getHeadCommit(workspacePath);
+  const comments = new Map<string, ParsedComment[] | undefined>();
+  const skipped: string[] = [];
+  let accepted = 0;
+
+  for (const edge of edges) {
+    const label = `${edge.currentNode} → ${edge.nextNode}`;
+    if (!comments.has(edge.filePath)) {
+      const entry = await scanFile(
+        workspacePath,
+        path.join(workspacePath, edge.filePath),
+        tag,
+        contextLines
+      );
+      comments.set(edge.filePath, entry && !entry.unsaved ? entry.parsed : undefined);
+    }
+    const comment = (comments.get(edge.filePath) ?? [])
+      .filter(
+        (item) =>
+          item.flowName === flowName &&
+          item.currentNode === edge.currentNode &&
+          item.nextNode === edge.nextNode
+      )
+      .sort((a, b) => Math.abs(a.line - edge.line) - Math.abs(b.line - edge.line))[0];
+    const index = flow.annotations.findIndex(
+      (annotation) =>
+        annotation.currentNode === edge.currentNode &&
+        annotation.nextNode === edge.nextNode &&
+        annotation.filePath === edge.dbLocation.filePath &&
+        annotation.line === edge.dbLocation.line
+    );
+    if (!comment || index < 0) {
+      skipped.push(label);
+      continue;
+    }
+
+    flow.annotations[index] = {
+      ...flow.annotations[index],
+      filePath: normalizeRelativePath(comment.relativePath),
+      commitHash: headCommit,
+      line: comment.line,
+      isoLine: comment.isoLine,
+      column: comment.column,
+      contextBefore: comment.contextBefore,
+      contextLine: comment.contextLine,
+      contextAfter: comment.contextAfter,
+      symbolPath: comment.symbolPath ?? null,
+      nodeType: comment.nodeType ?? null,
+      astAnchor: comment.astAnchor ?? null,
+    };
+    accepted += 1;
+  }
+
+  if (accepted > 0) {
+    flow.updatedAt = new Date().toISOString();
+    store.upsertFlow(flow);
+    await store.save();
+  }
+  return { accepted, skipped };
 }
@@ -1,13 +1,51 @@
 import * as crypto from 'crypto';
+import * as path from 'path';
 import * as vscode from 'vscode';
 import { FlowViewProvider } from './FlowViewProvider';
-import { getContextLineCount, getDebounceMs, getFlowTag } from './config';
-import { exportFlows } from './exporter';
+import { symbolIndexCache } from './ast';
+import { getContextLineCount, getDebounceMs, getFlowTag, getMatchThresholds } from './config';
+import { FlowDiagnostics } from './diagnostics';
+import { acceptSourceLocations, exportFlows } from './exporter';
+import { FlowOverlay, OverlayDirection } from './flowOverlay';
+import { getUnsavedText, isUsingBuiltinFallback } from './flowParser';
 import { computeFlowSummaries } from './flowState';
 import { FlowStore } from './flowStore';
-import { insertSingleComment } from './hydrateWriter';
+import { listRefs, resolveRef } from './git';
+import { MoveCommentResult, insertSingleComment, moveEdgeComment } from './hydrateWriter';
+import { FlowHydrator } from './hydrator';
+import { RefDocumentProvider } from './refDocuments';
 import { RemapEngine } from './remapper';
-import { MissingEdge, MissingEdgeCandidates, MovedEdge, MovedEdgeCandidates } from './types';
+import { FLOWRIDER_IGNORE, IGNORE_FILES } from './scanFilter';
+import { ScanIndex } from './scanIndex';
+import { loadTreeSitterProviders } from './treeSitter';
+import {
+  Annotation,
+  AnnotationTrace,
+  CommitInfo,
+  FlowRecord,
+  FlowSummary,
+  MalformedComment,
+  MissingEdge,
+  MissingEdgeCandidates,
+  MovedEdge,
+  MovedEdgeCandidates,
+} from './types';
+
+/**
+ * Folders are told apart by URI: two roots of a multi-root workspace can share
+ * a name. The name is only shown to the user.
+ */
+function folderIdOf(folder: vscode.WorkspaceFolder): string {
+  return folder.uri.toString();
+}
+
+/** Everything FlowRider keeps per workspace folder: each folder has its own DB. */
+interface FolderContext {
+  folder: vscode.WorkspaceFolder;
+  store: FlowStore;
+  remapEngine: RemapEngine;
+  hydrator: FlowHydrator;
+}
 
 export async function activate(context: vscode.ExtensionContext) {
   const workspaceFolders = vscode.workspace.workspaceFolders;
@@ -20,46 +58,148 @@ export async function activate(context: vscode.ExtensionContext) {
   // persisted webview state on VS Code restart
   const sessionId = crypto.randomUUID();
 
-  const workspaceFolder = workspaceFolders[0]; // monorepo v0
-  const store = new FlowStore(workspaceFolder);
-  const remapEngine = new RemapEngine(workspaceFolder.uri.fsPath);
+  const folders = new Map<string, FolderContext>();
+  const addFolder = (folder: vscode.WorkspaceFolder) => {
+    const remapEngine = new RemapEngine(folder.uri.fsPath);
+    folders.set(folderIdOf(folder), {
+      folder,
+      store: new FlowStore(folder),
+      remapEngine,
+      hydrator: new FlowHydrator(remapEngine),
+    });
+  };
+  workspaceFolders.forEach(addFolder);
+
+  // Webview messages carry the folder id; commands run from the palette may not
+  const contextFor = async (id?: string): Promise<FolderContext | undefined> => {
+    if (id) {
+      return folders.get(id);
+    }
+    if (folders.size <= 1) {
+      return folders.values().next().value;
+    }
+    const picked = await vscode.window.showWorkspaceFolderPick({
+      placeHolder: 'Workspace folder',
+    });
+    return picked ? folders.get(folderIdOf(picked)) : undefined;
+  };
+
   const viewProvider = new FlowViewProvider(context, sessionId);
+  const output = vscode.window.createOutputChannel('FlowRider');
+  context.subscriptions.push(output);
+
+  const logSymbolCacheStats = () => {
+    const { size, capacity, hits, misses, evictions } = symbolIndexCache.stats();
+    output.appendLine(
+      `[${new Date().toISOString()}] symbol index cache: ${hits} hits, ${misses} misses, ` +
+        `${evictions} evictions, ${size}/${capacity} files`
+    );
+  };
+
+  context.subscriptions.push(
+    vscode.window.registerWebviewViewProvider(FlowViewProvider.viewId, viewProvider),
+    vscode.workspace.registerTextDocumentContentProvider(
+      RefDocumentProvider.scheme,
+      new RefDocumentProvider()
+    )
+  );
+
+  const overlay = new FlowOverlay(
+    vscode.Uri.joinPath(context.extensionUri, 'media', 'flow-gutter.svg')
+  );
+  context.subscriptions.push(
+    overlay,
+    overlay.onDidChange((flowKeys) => viewProvider.pushOverlays(flowKeys))
+  );
+
+  let loggedScannerFallback = false;
+  const logScannerFallback = () => {
+    if (loggedScannerFallback || !isUsingBuiltinFallback()) {
+      return;
+    }
+    output.appendLine(
+      `[${new Date().toISOString()}] ripgrep not available, using built-in scanner`
+    );
+    loggedScannerFallback = true;
+  };
 
+  const diagnostics = new FlowDiagnostics();
   context.subscriptions.push(
-    vscode.window.registerWebviewViewProvider(FlowViewProvider.viewId, viewProvider)
+    diagnostics,
+    vscode.languages.registerCodeActionsProvider({ scheme: 'file' }, diagnostics, {
+      providedCodeActionKinds: FlowDiagnostics.providedCodeActionKinds,
+    })
   );
 
+  const scanIndex = new ScanIndex();
   let debounceHandle: NodeJS.Timeout | undefined;
   let lastScanError: string | undefined;
+  const pendingFiles = new Map<string, vscode.Uri>();
+
+  const reportScanError = (error: unknown) => {
+    const message =
+      error instanceof Error ? error.message : 'Unknown error while scanning flows';
+    console.error('[FlowRider] scan failed', error);
+    if (message !== lastScanError) {
+      vscode.window.showErrorMessage(`FlowRider failed to scan: ${message}`);
+      lastScanError = message;
+    }
+  };
 
+  const publishIndex = async () => {
+    const summaries: FlowSummary[] = [];
+    const malformed: MalformedComment[] = [];
+    for (const { folder, store } of folders.values()) {
+      await store.load();
+      const scan = scanIndex.toScanResult(folder.uri.fsPath);
+      summaries.push(
+        ...computeFlowSummaries(store.getAllFlows(), scan, folderIdOf(folder), folder.name)
+      );
+      malformed.push(...scan.malformed);
+    }
+    viewProvider.update(summaries, malformed);
+    diagnostics.update(malformed, summaries);
+    lastScanError = undefined;
+  };
+
+  // Full scan: startup, config changes and explicit refresh only
   const runScan = async () => {
     const tag = getFlowTag();
     const contextLines = getContextLineCount();
     try {
-      await store.load();
-      const scan = await import('./flowParser.js').then((m) => m.scanWorkspace(tag, contextLines));
-      const summaries = computeFlowSummaries(store.getAllFlows(), scan.parsed);
-      viewProvider.update(summaries, scan.malformed);
-      lastScanError = undefined;
+      await scanIndex.rebuild(tag, contextLines);
+      logScannerFallback();
+      await publishIndex();
+      logSymbolCacheStats();
     } catch (error) {
-      const message =
-        error instanceof Error ? error.message : 'Unknown error while scanning flows';
-      console.error('[FlowRider] scan failed', error);
-      if (message !== lastScanError) {
-        vscode.window.showErrorMessage(`FlowRider failed to scan: ${message}`);
-        lastScanError = message;
+      reportScanError(error);
+    }
+  };
+
+  // Incremental scan: only re-read the given files and patch the index
+  const runFileScan = async (uris: vscode.Uri[]) => {
+    const tag = getFlowTag();
+    const contextLines = getContextLineCount();
+    try {
+      const changed = await scanIndex.updateFiles(uris, tag, contextLines);
+      if (changed) {
+        await publishIndex();
       }
+    } catch (error) {
+      reportScanError(error);
     }
   };
 
-  const runExport = async (showToast = false, targetFlows?: Set<string>) => {
+  const runExport = async (
+    { store }: FolderContext,
+    showToast = false,
+    targetFlows?: Set<string>
+  ) => {
     const tag = getFlowTag();
     const contextLines = getContextLineCount();
     try {
-      const result = await exportFlows(store, tag, contextLines, targetFlows);
-      const summaries = computeFlowSummaries(result.flows, result.parsed);
-      viewProvider.update(summaries, store.getMalformed());
-      lastScanError = undefined;
+      await exportFlows(store, tag, contextLines, targetFlows);
+      await publishIndex();
       if (showToast) {
         vscode.window.showInformationMessage('FlowRider flows exported to DB.');
       }
@@ -76,19 +216,87 @@ export async function activate(context: vscode.ExtensionContext) {
     }
   };
 
-  const scheduleExport = () => {
+  const scheduleFileScan = (uri: vscode.Uri) => {
+    pendingFiles.set(uri.toString(), uri);
     const debounceMs = getDebounceMs();
     if (debounceHandle) {
       clearTimeout(debounceHandle);
     }
     debounceHandle = setTimeout(() => {
-      runScan();
+      const uris = Array.from(pendingFiles.values());
+      pendingFiles.clear();
+      runFileScan(uris);
     }, debounceMs);
   };
 
   context.subscriptions.push(
-    vscode.workspace.onDidSaveTextDocument(() => {
-      scheduleExport();
+    vscode.workspace.onDidSaveTextDocument((document) => {
+      // Ignore rules changed: any file may have entered or left the scan
+      const name = path.basename(document.uri.fsPath);
+      if (IGNORE_FILES.includes(name) || name === FLOWRIDER_IGNORE) {
+        runScan();
+        return;
+      }
+      scheduleFileScan(document.uri);
+    })
+  );
+
+  // Live edits: only documents that contain the tag, or that used to (tag removed)
+  context.subscriptions.push(
+    vscode.workspace.onDidChangeTextDocument((event) => {
+      const { document } = event;
+      if (document.uri.scheme !== 'file' || event.contentChanges.length === 0) {
+        return;
+      }
+      if (document.getText().includes(getFlowTag()) || scanIndex.has(document.uri)) {
+        scheduleFileScan(document.uri);
+      }
+    })
+  );
+
+  // Closing a dirty editor without saving drops its unsaved comments
+  context.subscriptions.push(
+    vscode.workspace.onDidCloseTextDocument((document) => {
+      if (scanIndex.hasUnsaved(document.uri)) {
+        scheduleFileScan(document.uri);
+      }
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.workspace.onDidDeleteFiles(async (event) => {
+      if (scanIndex.removeFiles(event.files)) {
+        await publishIndex().catch(reportScanError);
+      }
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.workspace.onDidRenameFiles(async (event) => {
+      const removed = scanIndex.removeFiles(event.files.map((file) => file.oldUri));
+      await runFileScan(event.files.map((file) => file.newUri));
+      if (removed) {
+        await publishIndex().catch(reportScanError);
+      }
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.workspace.onDidChangeWorkspaceFolders((event) => {
+      event.removed.forEach((folder) => {
+        folders.delete(folderIdOf(folder));
+        overlay.hideFolder(folderIdOf(folder));
+      });
+      event.added.forEach(addFolder);
+      runScan();
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.workspace.onDidChangeConfiguration((event) => {
+      if (event.affectsConfiguration('flowrider')) {
+        runScan();
+      }
     })
   );
 
@@ -99,38 +307,71 @@ export async function activate(context: vscode.ExtensionContext) {
   );
 
   context.subscriptions.push(
-    vscode.commands.registerCommand('flowrider.writeFlowToDb', async (flowName?: string) => {
-      if (!flowName) {
-        flowName = await vscode.window.showInputBox({ prompt: 'Flow name to export to DB' });
-      }
-      if (!flowName) return;
-      const target = new Set<string>([flowName]);
-      await runExport(true, target);
+    vscode.commands.registerCommand('flowrider.showSymbolCacheStats', () => {
+      logSymbolCacheStats();
+      output.show(true);
     })
   );
 
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      'flowrider.writeFlowToDb',
+      async (flowName?: string, folderId?: string) => {
+        const folderContext = await contextFor(folderId);
+        if (!folderContext) {
+          return;
+        }
+        if (!flowName) {
+          flowName = await vscode.window.showInputBox({ prompt: 'Flow name to export to DB' });
+        }
+        if (!flowName) {
+          return;
+        }
+        const target = new Set<string>([flowName]);
+        await runExport(folderContext, true, target);
+      }
+    )
+  );
+
+  // The DB annotation behind a missing edge, so re-inserted comments keep its label and cross marker
+  const dbAnnotationFor = async (
+    folderContext: FolderContext,
+    flowName: string,
+    edge: MissingEdge
+  ): Promise<Annotation | undefined> => {
+    await folderContext.store.load();
+    const annotation = folderContext.store
+      .getAllFlows()
+      .find((flow) => flow.name === flowName)
+      ?.annotations.find(
+        (item) =>
+          item.currentNode === edge.currentNode &&
+          item.nextNode === edge.nextNode &&
+          item.filePath === edge.dbLocation.filePath
+      );
+    if (!annotation) {
+      vscode.window.showWarningMessage(
+        `No DB annotation for ${edge.currentNode} → ${edge.nextNode} in flow "${flowName}".`
+      );
+    }
+    return annotation;
+  };
+
   context.subscriptions.push(
     vscode.commands.registerCommand(
       'flowrider.insertMissingComment',
-      async (flowName: string, edge: MissingEdge) => {
-        const absPath = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
-        if (!absPath) return;
-
-        // Create a minimal annotation-like object for insertSingleComment
-        const annotation = {
-          id: '',
-          filePath: edge.dbLocation.filePath,
-          flowName,
-          currentNode: edge.currentNode,
-          nextNode: edge.nextNode,
-          rawComment: edge.rawComment,
-          contextBefore: edge.dbLocation.contextBefore,
-          contextLine: edge.dbLocation.contextLine,
-          contextAfter: edge.dbLocation.contextAfter,
-          commitHash: '',
-        };
+      async (flowName: string, edge: MissingEdge, folderId?: string) => {
+        const folderContext = await contextFor(folderId);
+        if (!folderContext) {
+          return;
+        }
+        const absPath = folderContext.folder.uri.fsPath;
+        const annotation = await dbAnnotationFor(folderContext, flowName, edge);
+        if (!annotation) {
+          return;
+        }
 
-        const success = await insertSingleComment(absPath, annotation as import('./types').Annotation, edge.dbLocation.lineNumber);
+        const success = await insertSingleComment(absPath, annotation, edge.dbLocation.lineNumber);
         if (!success) {
           vscode.window.showWarningMessage(
             `Could not insert missing comment for ${flowName}. Check file path/permissions.`
@@ -140,7 +381,7 @@ export async function activate(context: vscode.ExtensionContext) {
         vscode.window.showInformationMessage(
           `Inserted missing edge: ${edge.currentNode} → ${edge.nextNode}`
         );
-        await runScan();
+        await runFileScan([vscode.Uri.joinPath(vscode.Uri.file(absPath), edge.dbLocation.filePath)]);
       }
     )
   );
@@ -148,19 +389,26 @@ export async function activate(context: vscode.ExtensionContext) {
   context.subscriptions.push(
     vscode.commands.registerCommand(
       'flowrider.findMissingEdgeCandidates',
-      async (flowName: string, edge: MissingEdge) => {
-        const candidates = await remapEngine.findCandidatesForMissingEdge(
-          edge.dbLocation.filePath,
-          edge.dbLocation.contextBefore,
-          edge.dbLocation.contextLine,
-          edge.dbLocation.contextAfter
-        );
+      async (flowName: string, edge: MissingEdge, folderId?: string) => {
+        const folderContext = await contextFor(folderId);
+        if (!folderContext) {
+          return;
+        }
+        const { candidates, explanation } =
+          await folderContext.remapEngine.findCandidatesForMissingEdge(
+            edge.dbLocation.filePath,
+            edge.dbLocation.contextBefore,
+            edge.dbLocation.contextLine,
+            edge.dbLocation.contextAfter
+          );
 
         const edgeKey = `${edge.currentNode}|${edge.nextNode}`;
         const data: MissingEdgeCandidates = {
+          folder: folderIdOf(folderContext.folder),
           flowName,
           edgeKey,
           candidates,
+          explanation,
         };
         viewProvider.pushMissingCandidates(data);
       }
@@ -170,24 +418,24 @@ export async function activate(context: vscode.ExtensionContext) {
   context.subscriptions.push(
     vscode.commands.registerCommand(
       'flowrider.insertAtCandidate',
-      async (flowName: string, edge: MissingEdge, line: number) => {
-        const absPath = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
-        if (!absPath) return;
-
-        const annotation = {
-          id: '',
-          filePath: edge.dbLocation.filePath,
-          flowName,
-          currentNode: edge.currentNode,
-          nextNode: edge.nextNode,
-          rawComment: edge.rawComment,
-          contextBefore: edge.dbLocation.contextBefore,
-          contextLine: edge.dbLocation.contextLine,
-          contextAfter: edge.dbLocation.contextAfter,
-          commitHash: '',
-        };
+      async (
+        flowName: string,
+        edge: MissingEdge,
+        line: number,
+        folderId?: string,
+        filePath = edge.dbLocation.filePath
+      ) => {
+        const folderContext = await contextFor(folderId);
+        if (!folderContext) {
+          return;
+        }
+        const absPath = folderContext.folder.uri.fsPath;
+        const annotation = await dbAnnotationFor(folderContext, flowName, edge);
+        if (!annotation) {
+          return;
+        }
 
-        const success = await insertSingleComment(absPath, annotation as import('./types').Annotation, line);
+        const success = await insertSingleComment(absPath, { ...annotation, filePath }, line);
         if (!success) {
           vscode.window.showWarningMessage(
             `Could not insert comment at line ${line}. Check file path/permissions.`
@@ -197,7 +445,7 @@ export async function activate(context: vscode.ExtensionContext) {
         vscode.window.showInformationMessage(
           `Inserted edge at line ${line}: ${edge.currentNode} → ${edge.nextNode}`
         );
-        await runScan();
+        await runFileScan([vscode.Uri.joinPath(vscode.Uri.file(absPath), filePath)]);
       }
     )
   );
@@ -205,28 +453,784 @@ export async function activate(context: vscode.ExtensionContext) {
   context.subscriptions.push(
     vscode.commands.registerCommand(
       'flowrider.findMovedEdgeCandidates',
-      async (flowName: string, edge: MovedEdge) => {
-        const candidates = await remapEngine.findCandidatesForMissingEdge(
-          edge.dbLocation.filePath,
-          edge.dbLocation.contextBefore,
-          edge.dbLocation.contextLine,
-          edge.dbLocation.contextAfter
-        );
+      async (flowName: string, edge: MovedEdge, folderId?: string) => {
+        const folderContext = await contextFor(folderId);
+        if (!folderContext) {
+          return;
+        }
+        const { candidates, explanation } =
+          await folderContext.remapEngine.findCandidatesForMissingEdge(
+            edge.dbLocation.filePath,
+            edge.dbLocation.contextBefore,
+            edge.dbLocation.contextLine,
+            edge.dbLocation.contextAfter
+          );
 
         const edgeKey = `${edge.currentNode}|${edge.nextNode}`;
         const data: MovedEdgeCandidates = {
+          folder: folderIdOf(folderContext.folder),
           flowName,
           edgeKey,
           candidates,
+          explanation,
         };
         viewProvider.pushMovedCandidates(data);
       }
     )
   );
 
+  // Moved edges as the sidebar shows them: DB location differs from the comment's
+  const movedEdgesOf = async (folderContext: FolderContext, flowName: string) => {
+    await folderContext.store.load();
+    const scan = scanIndex.toScanResult(folderContext.folder.uri.fsPath);
+    const summary = computeFlowSummaries(
+      folderContext.store.getAllFlows(),
+      scan,
+      folderIdOf(folderContext.folder),
+      folderContext.folder.name
+    ).find((item) => item.name === flowName);
+    return summary?.moved ?? [];
+  };
+
+  const acceptSources = async (
+    folderContext: FolderContext,
+    flowName: string,
+    edges: MovedEdge[]
+  ) => {
+    const result = await acceptSourceLocations(
+      folderContext.store,
+      getFlowTag(),
+      getContextLineCount(),
+      flowName,
+      edges.map((edge) => ({
+        currentNode: edge.currentNode,
+        nextNode: edge.nextNode,
+        dbLocation: { filePath: edge.dbLocation.filePath, line: edge.dbLocation.lineNumber },
+        filePath: edge.sourceLocation.filePath,
+        line: edge.sourceLocation.lineNumber,
+      }))
+    );
+    if (result.skipped.length > 0) {
+      vscode.window.showWarningMessage(
+        `Could not update ${result.skipped.length} edge(s) of "${flowName}": ` +
+          `${result.skipped.join(', ')}. Save the file and try again.`
+      );
+    }
+    return result.accepted;
+  };
+
+  const MOVE_FAILURES: Record<Exclude<MoveCommentResult, 'moved'>, string> = {
+    'not-found': 'the comment is no longer at its source line',
+    shared: 'the comment declares other edges too; move it by hand',
+    unreadable: 'the file could not be read',
+  };
+
+  /** Move an edge's comment to `target`, then record the new location in the DB. */
+  const moveToCandidate = async (
+    folderContext: FolderContext,
+    flowName: string,
+    edge: MovedEdge,
+    target: { filePath: string; line: number }
+  ): Promise<boolean> => {
+    const root = folderContext.folder.uri;
+    const touched = [edge.sourceLocation.filePath, target.filePath].map((filePath) =>
+      vscode.Uri.joinPath(root, filePath)
+    );
+    if (touched.some((uri) => getUnsavedText(uri.fsPath) !== undefined)) {
+      vscode.window.showWarningMessage(
+        `Save ${edge.sourceLocation.filePath} and ${target.filePath} before moving comments.`
+      );
+      return false;
+    }
+
+    const result = await moveEdgeComment(
+      root.fsPath,
+      { flowName, currentNode: edge.currentNode, nextNode: edge.nextNode },
+      { filePath: edge.sourceLocation.filePath, line: edge.sourceLocation.lineNumber },
+      target
+    );
+    if (result !== 'moved') {
+      vscode.window.showWarningMessage(
+        `Could not move ${edge.currentNode} → ${edge.nextNode}: ${MOVE_FAILURES[result]}.`
+      );
+      return false;
+    }
+    await acceptSources(folderContext, flowName, [
+      { ...edge, sourceLocation: { filePath: target.filePath, lineNumber: target.line } },
+    ]);
+    await runFileScan(touched);
+    return true;
+  };
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      'flowrider.acceptMovedSource',
+      async (flowName: string, edge: MovedEdge, folderId?: string) => {
+        const folderContext = await contextFor(folderId);
+        if (!folderContext) {
+          return;
+        }
+        if ((await acceptSources(folderContext, flowName, [edge])) > 0) {
+          vscode.window.showInformationMessage(
+            `DB now points ${edge.currentNode} → ${edge.nextNode} at ` +
+              `${edge.sourceLocation.filePath}:${edge.sourceLocation.lineNumber}.`
+          );
+        }
+        await publishIndex().catch(reportScanError);
+      }
+    )
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      'flowrider.moveCommentToCandidate',
+      async (
+        flowName: string,
+        edge: MovedEdge,
+        line: number,
+        folderId?: string,
+        filePath = edge.dbLocation.filePath
+      ) => {
+        const folderContext = await contextFor(folderId);
+        if (!folderContext) {
+          return;
+        }
+        if (await moveToCandidate(folderContext, flowName, edge, { filePath, line })) {
+          vscode.window.showInformationMessage(
+            `Moved ${edge.currentNode} → ${edge.nextNode} to ${filePath}:${line}.`
+          );
+        }
+      }
+    )
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      'flowrider.acceptAllMovedSources',
+      async (flowName: string, folderId?: string) => {
+        const folderContext = await contextFor(folderId);
+        if (!folderContext) {
+          return;
+        }
+        const moved = await movedEdgesOf(folderContext, flowName);
+        const accepted = moved.length > 0 ? await acceptSources(folderContext, flowName, moved) : 0;
+        vscode.window.showInformationMessage(
+          `Accepted ${accepted} source location(s) for "${flowName}".`
+        );
+        await publishIndex().catch(reportScanError);
+      }
+    )
+  );
+
+  // Only candidates at or above the strict threshold are used: nobody reviews these one by one
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      'flowrider.moveAllMovedToCandidates',
+      async (flowName: string, folderId?: string) => {
+        const folderContext = await contextFor(folderId);
+        if (!folderContext) {
+          return;
+        }
+        const { strict } = getMatchThresholds();
+        const keys = (await movedEdgesOf(folderContext, flowName)).map(
+          (edge) => `${edge.currentNode}|${edge.nextNode}`
+        );
+        let moved = 0;
+        const unresolved: string[] = [];
+        for (const key of keys) {
+          // Every move shifts lines, so each edge is looked up again after the last rescan
+          const edge = (await movedEdgesOf(folderContext, flowName)).find(
+            (item) => `${item.currentNode}|${item.nextNode}` === key
+          );
+          if (!edge) {
+            continue;
+          }
+          const { candidates } = await folderContext.remapEngine.findCandidatesForMissingEdge(
+            edge.dbLocation.filePath,
+            edge.dbLocation.contextBefore,
+            edge.dbLocation.contextLine,
+            edge.dbLocation.contextAfter
+          );
+          const best = candidates[0];
+          if (!best || best.score < strict) {
+            unresolved.push(`${edge.currentNode} → ${edge.nextNode}`);
+            continue;
+          }
+          const target = { filePath: best.filePath ?? edge.dbLocation.filePath, line: best.line };
+          if (await moveToCandidate(folderContext, flowName, edge, target)) {
+            moved += 1;
+          }
+        }
+        const rest =
+          unresolved.length > 0 ? ` No confident candidate for: ${unresolved.join(', ')}.` : '';
+        vscode.window.showInformationMessage(
+          `Moved ${moved} comment(s) for "${flowName}" to their best candidate.${rest}`
+        );
+      }
+    )
+  );
+
+  const showHydration = async (folderContext: FolderContext, flow: FlowRecord, ref?: string) => {
+    const title = ref
+      ? `Remapping flow "${flow.name}" onto ${ref}…`
+      : `Remapping flow "${flow.name}"…`;
+    const result = await vscode.window.withProgress(
+      { location: vscode.ProgressLocation.Notification, title },
+      () => folderContext.hydrator.hydrate(flow, ref)
+    );
+    viewProvider.pushHydration({
+      folder: folderIdOf(folderContext.folder),
+      flowName: flow.name,
+      annotations: result.annotations,
+      ref,
+    });
+    await vscode.commands.executeCommand(`${FlowViewProvider.viewId}.focus`);
+  };
+
+  const pickDbFlow = async (folderContext: FolderContext, placeHolder: string) => {
+    await folderContext.store.load();
+    const flows = folderContext.store.getAllFlows();
+    if (flows.length === 0) {
+      vscode.window.showInformationMessage('No flows in the DB yet. Write flows to the DB first.');
+      return undefined;
+    }
+    const picked = await vscode.window.showQuickPick(
+      flows.map((flow) => ({
+        label: flow.name,
+        description: `${flow.annotations.length} annotations`,
+        detail: flow.description,
+        flow,
+      })),
+      { placeHolder }
+    );
+    return picked?.flow;
+  };
+
+  const pickRef = async (folderContext: FolderContext): Promise<string | undefined> => {
+    const otherRef = 'Other ref or commit…';
+    const refs = await listRefs(folderContext.folder.uri.fsPath);
+    const picked = await vscode.window.showQuickPick([...refs, otherRef], {
+      placeHolder: 'Remap onto which branch, tag or commit?',
+    });
+    if (picked !== otherRef) {
+      return picked;
+    }
+    return vscode.window.showInputBox({
+      prompt: 'Git ref to remap onto (branch, tag, commit)',
+      placeHolder: 'origin/main',
+      validateInput: async (value) =>
+        value.trim() && !(await resolveRef(folderContext.folder.uri.fsPath, value.trim()))
+          ? `"${value.trim()}" is not a commit in this repository`
+          : undefined,
+    });
+  };
+
+  const hydrateByName = async (folderContext: FolderContext, flowName: string) => {
+    await folderContext.store.load();
+    const flow = folderContext.store.getAllFlows().find((item) => item.name === flowName);
+    if (!flow) {
+      vscode.window.showWarningMessage(`Flow "${flowName}" is not in the DB.`);
+      return;
+    }
+    await showHydration(folderContext, flow);
+  };
+
+  // Placements in one file go bottom-up so earlier inserts do not shift later targets
+  const writeResolvedComments = async (
+    folderContext: FolderContext,
+    placements: Array<{ annotation: Annotation; filePath: string; line: number }>
+  ) => {
+    const absPath = folderContext.folder.uri.fsPath;
+    const sorted = [...placements].sort(
+      (a, b) => a.filePath.localeCompare(b.filePath) || b.line - a.line
+    );
+    const failed: string[] = [];
+    for (const { annotation, filePath, line } of sorted) {
+      const success = await insertSingleComment(absPath, { ...annotation, filePath }, line);
+      if (!success) {
+        failed.push(`${filePath}:${line}`);
+      }
+    }
+    if (failed.length > 0) {
+      vscode.window.showWarningMessage(
+        `Could not insert ${failed.length} comment(s): ${failed.join(', ')}. Check file path/permissions.`
+      );
+    }
+    const touched = new Set(sorted.map((placement) => placement.filePath));
+    await runFileScan(
+      Array.from(touched, (filePath) => vscode.Uri.joinPath(folderContext.folder.uri, filePath))
+    );
+    return sorted.length - failed.length;
+  };
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      'flowrider.hydrateFlow',
+      async (flowName?: string, folderId?: string) => {
+        const folderContext = await contextFor(folderId);
+        if (!folderContext) {
+          return;
+        }
+        if (flowName) {
+          await hydrateByName(folderContext, flowName);
+          return;
+        }
+        const flow = await pickDbFlow(folderContext, 'Flow to hydrate');
+        if (flow) {
+          await showHydration(folderContext, flow);
+        }
+      }
+    )
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      'flowrider.hydrateFlowAtRef',
+      async (flowName?: string, folderId?: string, ref?: string) => {
+        const folderContext = await contextFor(folderId);
+        if (!folderContext) {
+          return;
+        }
+        let flow: FlowRecord | undefined;
+        if (flowName) {
+          await folderContext.store.load();
+          flow = folderContext.store.getAllFlows().find((item) => item.name === flowName);
+          if (!flow) {
+            vscode.window.showWarningMessage(`Flow "${flowName}" is not in the DB.`);
+            return;
+          }
+        } else {
+          flow = await pickDbFlow(folderContext, 'Flow to remap onto another ref');
+        }
+        if (!flow) {
+          return;
+        }
+
+        const target = (ref ?? (await pickRef(folderContext)))?.trim();
+        if (!target) {
+          return;
+        }
+        if (!(await resolveRef(folderContext.folder.uri.fsPath, target))) {
+          vscode.window.showWarningMessage(`"${target}" is not a commit in this repository.`);
+          return;
+        }
+        await showHydration(folderContext, flow, target);
+      }
+    )
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      'flowrider.hydrateFlowByName',
+      async (flowName?: string, folderId?: string) => {
+        const folderContext = await contextFor(folderId);
+        if (!folderContext) {
+          return;
+        }
+        if (!flowName) {
+          flowName = await vscode.window.showInputBox({ prompt: 'Flow name to hydrate' });
+        }
+        if (!flowName) {
+          return;
+        }
+        await hydrateByName(folderContext, flowName);
+      }
+    )
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('flowrider.clearHydration', () => {
+      folders.forEach(({ hydrator }) => hydrator.clear());
+      viewProvider.pushHydration(null);
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      'flowrider.applyAutoResolutions',
+      async (flowName: string, folderId?: string) => {
+        const folderContext = await contextFor(folderId);
+        const result = folderContext?.hydrator.getResult(flowName);
+        if (!folderContext || !result) {
+          vscode.window.showWarningMessage(`Hydrate flow "${flowName}" before applying resolutions.`);
+          return;
+        }
+        const placements = result.annotations.flatMap(({ annotation, resolution }) =>
+          resolution.kind === 'auto'
+            ? [
+                {
+                  annotation,
+                  filePath: resolution.filePath ?? annotation.filePath,
+                  line: resolution.line,
+                },
+              ]
+            : []
+        );
+        if (placements.length === 0) {
+          vscode.window.showInformationMessage(`No automatic resolutions for "${flowName}".`);
+          return;
+        }
+        const written = await writeResolvedComments(folderContext, placements);
+        vscode.window.showInformationMessage(
+          `Applied ${written} automatic resolution(s) for "${flowName}".`
+        );
+        await hydrateByName(folderContext, flowName);
+      }
+    )
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      'flowrider.applyHydrationCandidate',
+      async (
+        flowName: string,
+        annotationId: string,
+        line: number,
+        folderId?: string,
+        filePath?: string
+      ) => {
+        const folderContext = await contextFor(folderId);
+        const annotation = folderContext?.hydrator
+          .getResult(flowName)
+          ?.annotations.find((item) => item.annotation.id === annotationId)?.annotation;
+        if (!folderContext || !annotation) {
+          vscode.window.showWarningMessage(`Hydrate flow "${flowName}" before applying resolutions.`);
+          return;
+        }
+        const written = await writeResolvedComments(folderContext, [
+          { annotation, filePath: filePath ?? annotation.filePath, line },
+        ]);
+        if (written > 0) {
+          vscode.window.showInformationMessage(
+            `Inserted edge at line ${line}: ${annotation.currentNode} → ${annotation.nextNode}`
+          );
+        }
+        await hydrateByName(folderContext, flowName);
+      }
+    )
+  );
+
+  // Overlays remap the flow but only decorate the resolved lines; nothing is
+  // written, and the hydrator's results (what Apply All applies) stay untouched
+  const overlayFlow = async (folderContext: FolderContext, flow: FlowRecord) => {
+    const folderId = folderIdOf(folderContext.folder);
+    const result = await folderContext.remapEngine.remapFlow(flow);
+    if (folders.get(folderId) !== folderContext) {
+      return { placed: 0, total: result.annotations.length }; // folder removed meanwhile
+    }
+    const placements = result.annotations.flatMap(({ annotation, resolution }) =>
+      resolution.kind === 'auto'
+        ? [
+            {
+              annotation,
+              uri: vscode.Uri.joinPath(
+                folderContext.folder.uri,
+                resolution.filePath ?? annotation.filePath
+              ),
+              line: resolution.line,
+            },
+          ]
+        : []
+    );
+    overlay.show(folderId, flow.name, placements);
+    return { placed: placements.length, total: result.annotations.length };
+  };
+
+  // Saved edits move code around: re-resolve the overlaid flows with an edge in the saved files
+  const refreshOverlays = async (saved: vscode.Uri[]) => {
+    const savedKeys = new Set(saved.map((uri) => uri.toString()));
+    for (const { folder, flowName } of overlay.activeFlows()) {
+      const folderContext = folders.get(folder);
+      await folderContext?.store.load();
+      const flow = folderContext?.store.getAllFlows().find((item) => item.name === flowName);
+      if (!folderContext || !flow) {
+        overlay.hide(folder, flowName);
+        continue;
+      }
+      const affected =
+        saved.some((uri) => overlay.hasPlacementIn(folder, flowName, uri)) ||
+        flow.annotations.some((annotation) =>
+          savedKeys.has(vscode.Uri.joinPath(folderContext.folder.uri, annotation.filePath).toString())
+        );
+      if (!affected) {
+        continue;
+      }
+      await overlayFlow(folderContext, flow).catch((error) =>
+        console.error('[FlowRider] overlay refresh failed', error)
+      );
+    }
+  };
+
+  let overlayDebounceHandle: NodeJS.Timeout | undefined;
+  let overlayRefreshRunning = false;
+  const pendingOverlayFiles = new Map<string, vscode.Uri>();
+
+  // One refresh at a time; files saved meanwhile are picked up when it ends
+  const flushOverlayRefresh = () => {
+    if (overlayRefreshRunning || pendingOverlayFiles.size === 0) {
+      return;
+    }
+    const uris = Array.from(pendingOverlayFiles.values());
+    pendingOverlayFiles.clear();
+    overlayRefreshRunning = true;
+    refreshOverlays(uris)
+      .catch((error) => console.error('[FlowRider] overlay refresh failed', error))
+      .finally(() => {
+        overlayRefreshRunning = false;
+        flushOverlayRefresh();
+      });
+  };
+
+  context.subscriptions.push(
+    vscode.workspace.onDidSaveTextDocument((document) => {
+      if (overlay.activeFlows().length === 0) {
+        return;
+      }
+      pendingOverlayFiles.set(document.uri.toString(), document.uri);
+      if (overlayDebounceHandle) {
+        clearTimeout(overlayDebounceHandle);
+      }
+      overlayDebounceHandle = setTimeout(flushOverlayRefresh, getDebounceMs());
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      'flowrider.toggleFlowOverlay',
+      async (flowName?: string, folderId?: string) => {
+        const folderContext = await contextFor(folderId);
+        if (!folderContext) {
+          return;
+        }
+        const folder = folderIdOf(folderContext.folder);
+        if (flowName && overlay.isActive(folder, flowName)) {
+          overlay.hide(folder, flowName);
+          return;
+        }
+
+        let flow: FlowRecord | undefined;
+        if (flowName) {
+          await folderContext.store.load();
+          flow = folderContext.store.getAllFlows().find((item) => item.name === flowName);
+          if (!flow) {
+            vscode.window.showWarningMessage(`Flow "${flowName}" is not in the DB.`);
+            return;
+          }
+        } else {
+          flow = await pickDbFlow(folderContext, 'Flow to overlay (or hide, if already shown)');
+          if (!flow) {
+            return;
+          }
+          if (overlay.isActive(folder, flow.name)) {
+            overlay.hide(folder, flow.name);
+            return;
+          }
+        }
+
+        const target = flow;
+        const { placed, total } = await vscode.window.withProgress(
+          { location: vscode.ProgressLocation.Notification, title: `Remapping flow "${target.name}"…` },
+          () => overlayFlow(folderContext, target)
+        );
+        if (placed < total) {
+          vscode.window.showInformationMessage(
+            `Overlay "${target.name}": ${placed} of ${total} annotations placed. ` +
+              'Hydrate the flow to review the rest.'
+          );
+        }
+      }
+    )
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('flowrider.clearFlowOverlays', () => overlay.clear())
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      'flowrider.overlayNavigate',
+      async (
+        folderId?: string,
+        flowName?: string,
+        annotationId?: string,
+        direction: OverlayDirection = 'next'
+      ) => {
+        // From the palette: the overlaid edge on the cursor line
+        if (!folderId || !flowName || !annotationId) {
+          const editor = vscode.window.activeTextEditor;
+          const hit =
+            editor && overlay.placementAt(editor.document.uri, editor.selection.active.line + 1);
+          if (!hit) {
+            vscode.window.showInformationMessage('No overlaid flow edge on the current line.');
+            return;
+          }
+          folderId = hit.folder;
+          flowName = hit.flowName;
+          annotationId = hit.placement.annotation.id;
+        }
+
+        const targets = overlay.neighbours(folderId, flowName, annotationId, direction);
+        let target = targets[0];
+        if (targets.length === 0) {
+          vscode.window.showInformationMessage(
+            `No ${direction} node in the "${flowName}" overlay.`
+          );
+          return;
+        }
+        if (targets.length > 1) {
+          const picked = await vscode.window.showQuickPick(
+            targets.map((placement) => ({
+              label: `${placement.annotation.currentNode} → ${placement.annotation.nextNode}`,
+              description: `${vscode.workspace.asRelativePath(placement.uri)}:${placement.line}`,
+              placement,
+            })),
+            { placeHolder: `${direction === 'next' ? 'Next' : 'Previous'} edge` }
+          );
+          if (!picked) {
+            return;
+          }
+          target = picked.placement;
+        }
+
+        const document = await vscode.workspace.openTextDocument(target.uri);
+        const position = new vscode.Position(
+          Math.min(target.line, document.lineCount) - 1,
+          0
+        );
+        const editor = await vscode.window.showTextDocument(document);
+        editor.selection = new vscode.Selection(position, position);
+        editor.revealRange(new vscode.Range(position, position), vscode.TextEditorRevealType.InCenter);
+      }
+    )
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('flowrider.overlayNextNode', () =>
+      vscode.commands.executeCommand('flowrider.overlayNavigate', undefined, undefined, undefined, 'next')
+    ),
+    vscode.commands.registerCommand('flowrider.overlayPreviousNode', () =>
+      vscode.commands.executeCommand(
+        'flowrider.overlayNavigate',
+        undefined,
+        undefined,
+        undefined,
+        'previous'
+      )
+    )
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      'flowrider.traceAnnotationHistory',
+      async (flowName?: string, edge?: MissingEdge, folderId?: string) => {
+        const folderContext = await contextFor(folderId);
+        if (!folderContext) {
+          return;
+        }
+        await folderContext.store.load();
+        const flows = folderContext.store.getAllFlows();
+
+        let annotation: Annotation | undefined;
+        if (flowName && edge) {
+          annotation = await dbAnnotationFor(folderContext, flowName, edge);
+        } else {
+          const picked = await vscode.window.showQuickPick(
+            flows.flatMap((flow) =>
+              flow.annotations.map((item) => ({
+                label: `${flow.name}: ${item.currentNode} → ${item.nextNode}`,
+                description: `${item.filePath}:${item.line}`,
+                annotation: item,
+              }))
+            ),
+            { placeHolder: 'Annotation to trace', matchOnDescription: true }
+          );
+          annotation = picked?.annotation;
+        }
+        if (!annotation) {
+          return;
+        }
+
+        const target = annotation;
+        const trace = await vscode.window.withProgress(
+          { location: vscode.ProgressLocation.Notification, title: 'Tracing annotation history…' },
+          () => folderContext.remapEngine.traceAnnotation(target)
+        );
+        output.appendLine(formatAnnotationTrace(trace));
+        output.show(true);
+
+        // The replayed position joins the usual snippet-search candidates
+        const { candidates, explanation } =
+          await folderContext.remapEngine.findCandidatesForMissingEdge(
+            target.filePath,
+            target.contextBefore,
+            target.contextLine,
+            target.contextAfter,
+            target.symbolPath
+          );
+        const seen = new Set<string>();
+        viewProvider.pushMissingCandidates({
+          folder: folderIdOf(folderContext.folder),
+          flowName: target.flowName,
+          edgeKey: `${target.currentNode}|${target.nextNode}`,
+          candidates: (trace.candidate ? [trace.candidate, ...candidates] : candidates).filter(
+            (candidate) => {
+              const key = `${candidate.filePath ?? target.filePath}:${candidate.line}`;
+              if (seen.has(key)) {
+                return false;
+              }
+              seen.add(key);
+              return true;
+            }
+          ),
+          explanation,
+        });
+      }
+    )
+  );
+
+  // Symbol paths for Python/Go/Rust/Java/C/C++ need the grammars before the first scan
+  await loadTreeSitterProviders().catch((error) =>
+    console.warn('[FlowRider] tree-sitter unavailable, symbol paths limited to TS/JS', error)
+  );
   await runScan();
 }
 
+function formatAnnotationTrace(trace: AnnotationTrace): string {
+  const { annotation } = trace;
+  const percent = (value: number) => `${(value * 100).toFixed(0)}%`;
+  const describe = (commit: CommitInfo) =>
+    commit.hash
+      ? `${commit.hash.slice(0, 7)} ${commit.subject} (${commit.author}, ${commit.date})`
+      : commit.subject;
+
+  const lines = [
+    `[${new Date().toISOString()}] history of ${annotation.flowName}: ` +
+      `${annotation.currentNode} → ${annotation.nextNode} ` +
+      `(${annotation.filePath}:${annotation.line} at ${annotation.commitHash.slice(0, 7)})`,
+  ];
+  if (trace.note) {
+    lines.push(`  ${trace.note}`);
+    return lines.join('\n');
+  }
+  for (const step of trace.steps) {
+    const where = step.line ? `line ${step.line}` : 'no match';
+    const how = step.source ? `, ${step.source}` : '';
+    lines.push(`  ${describe(step.commit)}: ${where} (${percent(step.confidence)}${how})`);
+  }
+  if (trace.breaking) {
+    lines.push(
+      `  Breaking commit: ${describe(trace.breaking.commit)}; confidence dropped to ` +
+        `${percent(trace.breaking.confidence)} (last tracked at line ${trace.breaking.lastLine})`
+    );
+    if (trace.breaking.diffHunk) {
+      lines.push(...trace.breaking.diffHunk.split('\n').map((line) => `    ${line}`));
+    }
+  } else if (trace.candidate) {
+    lines.push(`  Tracked to line ${trace.candidate.line} in the working tree.`);
+  }
+  return lines.join('\n');
+}
+
 export function deactivate() {
   // FlowHydrator disposed via subscription
 }
@@ -0,0 +1,191 @@
+import * as vscode from 'vscode';
+import { Annotation } from './types';
+
+/** Where a hydrated annotation would sit if its comment were written. */
+export interface OverlayPlacement {
+  annotation: Annotation;
+  uri: vscode.Uri;
+  line: number; // 1-based; the comment would be inserted above this line
+}
+
+interface OverlayFlow {
+  folder: string;
+  flowName: string;
+  placements: OverlayPlacement[];
+}
+
+export type OverlayDirection = 'next' | 'previous';
+
+/** Flow names are only unique within a workspace folder */
+const overlayKey = (folder: string, flowName: string) => `${folder}|${flowName}`;
+
+/**
+ * Shows DB flows in the editor without touching the files: every resolved
+ * annotation gets ghost text at the end of its line and a gutter icon, with
+ * a hover linking to the neighbouring nodes. Overlays are toggled per flow.
+ */
+export class FlowOverlay implements vscode.Disposable {
+  private readonly flows = new Map<string, OverlayFlow>();
+  private readonly decorationType: vscode.TextEditorDecorationType;
+  private readonly disposables: vscode.Disposable[] = [];
+  private readonly changeEmitter = new vscode.EventEmitter<string[]>();
+
+  /** Fires with the keys (folder|flowName) of the flows currently overlaid. */
+  readonly onDidChange = this.changeEmitter.event;
+
+  constructor(gutterIcon: vscode.Uri) {
+    this.decorationType = vscode.window.createTextEditorDecorationType({
+      gutterIconPath: gutterIcon,
+      gutterIconSize: 'contain',
+      rangeBehavior: vscode.DecorationRangeBehavior.ClosedClosed,
+      after: {
+        color: new vscode.ThemeColor('editorCodeLens.foreground'),
+        fontStyle: 'italic',
+        margin: '0 0 0 2em',
+      },
+    });
+    this.disposables.push(
+      this.decorationType,
+      this.changeEmitter,
+      vscode.window.onDidChangeVisibleTextEditors(() => this.render())
+    );
+  }
+
+  dispose() {
+    this.flows.clear();
+    this.disposables.forEach((disposable) => disposable.dispose());
+  }
+
+  isActive(folder: string, flowName: string): boolean {
+    return this.flows.has(overlayKey(folder, flowName));
+  }
+
+  activeFlows(): Array<{ folder: string; flowName: string }> {
+    return Array.from(this.flows.values(), ({ folder, flowName }) => ({ folder, flowName }));
+  }
+
+  show(folder: string, flowName: string, placements: OverlayPlacement[]) {
+    this.flows.set(overlayKey(folder, flowName), { folder, flowName, placements });
+    this.changed();
+  }
+
+  hide(folder: string, flowName: string) {
+    if (this.flows.delete(overlayKey(folder, flowName))) {
+      this.changed();
+    }
+  }
+
+  clear() {
+    this.flows.clear();
+    this.changed();
+  }
+
+  /** Drop every overlay of a folder, e.g. when it leaves the workspace. */
+  hideFolder(folder: string) {
+    const keys = Array.from(this.flows.entries())
+      .filter(([, state]) => state.folder === folder)
+      .map(([key]) => key);
+    keys.forEach((key) => this.flows.delete(key));
+    if (keys.length > 0) {
+      this.changed();
+    }
+  }
+
+  /** Whether an overlaid flow currently decorates the given file. */
+  hasPlacementIn(folder: string, flowName: string, uri: vscode.Uri): boolean {
+    const placements = this.flows.get(overlayKey(folder, flowName))?.placements ?? [];
+    return placements.some((item) => item.uri.toString() === uri.toString());
+  }
+
+  /** The overlaid edge whose line the given position is on, if any. */
+  placementAt(
+    uri: vscode.Uri,
+    line: number
+  ): { folder: string; flowName: string; placement: OverlayPlacement } | undefined {
+    for (const { folder, flowName, placements } of this.flows.values()) {
+      const placement = placements.find(
+        (item) => item.line === line && item.uri.toString() === uri.toString()
+      );
+      if (placement) {
+        return { folder, flowName, placement };
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Edges continuing from (next) or leading into (previous) the given edge.
+   * Branches and merges can yield several.
+   */
+  neighbours(
+    folder: string,
+    flowName: string,
+    annotationId: string,
+    direction: OverlayDirection
+  ): OverlayPlacement[] {
+    const placements = this.flows.get(overlayKey(folder, flowName))?.placements ?? [];
+    const current = placements.find((item) => item.annotation.id === annotationId)?.annotation;
+    if (!current) {
+      return [];
+    }
+    return placements.filter(({ annotation }) =>
+      direction === 'next'
+        ? annotation.currentNode === current.nextNode
+        : annotation.nextNode === current.currentNode
+    );
+  }
+
+  private changed() {
+    this.render();
+    this.changeEmitter.fire(Array.from(this.flows.keys()));
+  }
+
+  private render() {
+    for (const editor of vscode.window.visibleTextEditors) {
+      const target = editor.document.uri.toString();
+      const decorations: vscode.DecorationOptions[] = [];
+      for (const flow of this.flows.values()) {
+        for (const placement of flow.placements) {
+          if (placement.uri.toString() !== target) {
+            continue;
+          }
+          // Past the end when the code shrank since hydration: pin to the last line
+          const line = Math.min(placement.line, editor.document.lineCount) - 1;
+          const end = editor.document.lineAt(line).range.end;
+          decorations.push({
+            range: new vscode.Range(end, end),
+            hoverMessage: hoverFor(flow, placement),
+            renderOptions: { after: { contentText: ghostTextFor(placement.annotation) } },
+          });
+        }
+      }
+      editor.setDecorations(this.decorationType, decorations);
+    }
+  }
+}
+
+function ghostTextFor({ flowName, currentNode, nextNode, label }: Annotation): string {
+  const arrow = label ? `=[${label}]=>` : '→';
+  return `⇢ ${flowName}: ${currentNode} ${arrow} ${nextNode}`;
+}
+
+function hoverFor(flow: OverlayFlow, { annotation }: OverlayPlacement): vscode.MarkdownString {
+  const link = (text: string, direction: OverlayDirection) => {
+    const args = [flow.folder, flow.flowName, annotation.id, direction];
+    return `[${text}](command:flowrider.overlayNavigate?${encodeURIComponent(JSON.stringify(args))})`;
+  };
+  const hover = new vscode.MarkdownString();
+  hover.isTrusted = { enabledCommands: ['flowrider.overlayNavigate'] };
+  hover.appendMarkdown(`**${escapeMarkdown(flow.flowName)}** (overlay)\n\n`);
+  hover.appendMarkdown(
+    `\`${annotation.currentNode}\` → \`${annotation.nextNode}\`` +
+      (annotation.label ? ` *${escapeMarkdown(annotation.label)}*` : '') +
+      '\n\n'
+  );
+  hover.appendMarkdown(`${link('← Previous node', 'previous')} · ${link('Next node →', 'next')}`);
+  return hover;
+}
+
+function escapeMarkdown(text: string): string {
+  return text.replace(/[\\`*_{}[\]()#+\-.!|<>]/g, '\\$&');
+}
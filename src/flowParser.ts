@@ -2,10 +2,23 @@ import { spawn } from 'child_process';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as vscode from 'vscode';
-import { inferSymbolAtPosition } from './ast';
-import { ParsedComment, ScanResult, MalformedComment } from './types';
+import { inferAstAnchor, inferSymbolAtPosition } from './ast';
+import { CommentSyntaxTable, findCommentRanges, getCommentSyntax, isInRanges } from './commentSyntax';
+import { getCommentSyntaxOverrides, getScannerBackend, ScannerBackend } from './config';
+import { ScanFilter } from './scanFilter';
+import { resolveFlowMetadata, resolveNodeDescriptions } from './flowState';
+import {
+  FileScanEntry,
+  FlowDeclaration,
+  MalformedComment,
+  NodeDeclaration,
+  NodeMarker,
+  ParsedComment,
+  ScanResult,
+} from './types';
 
 interface RipgrepMatch {
+  folderPath: string;
   filePath: string;
   relativePath: string;
   lineNumber: number;
@@ -14,29 +27,37 @@ interface RipgrepMatch {
   lineText: string;
 }
 
+// Files larger than this are skipped by the built-in scanner (likely generated/binary).
+const BUILTIN_MAX_FILE_BYTES = 2 * 1024 * 1024;
+
+// Set once `rg` fails to spawn so 'auto' mode stops retrying it on every scan.
+let ripgrepUnavailable = false;
+
 function escapeRegExp(value: string): string {
   return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
 }
 
+// ripgrep reports UTF-8 byte offsets; columns everywhere else are UTF-16
+function byteOffsetToColumn(lineText: string, byteOffset: number): number {
+  return Buffer.from(lineText, 'utf8').subarray(0, byteOffset).toString('utf8').length;
+}
+
+function isSpawnMissing(error: unknown): boolean {
+  const code = (error as NodeJS.ErrnoException | undefined)?.code;
+  return code === 'ENOENT' || code === 'EACCES';
+}
+
 function runRipgrepOnFolder(
-  folderPath: string,
+  filter: ScanFilter,
   tag: string
 ): Promise<RipgrepMatch[]> {
+  const folderPath = filter.folderPath;
   return new Promise((resolve, reject) => {
     const args = [
       '--json',
       '--line-number',
       '--hidden',
-      '--glob',
-      '!.git',
-      '--glob',
-      '!.codeflows',
-      '--glob',
-      '!node_modules',
-      '--glob',
-      '!dist',
-      '--glob',
-      '!out',
+      ...filter.ripgrepArgs(),
       '--fixed-strings',
       tag,
       '.',
@@ -60,9 +81,13 @@ function runRipgrepOnFolder(
             const absolutePath = path.join(folderPath, fileRelative);
             const lineNumber = parsed.data.line_number as number;
             const lineText = (parsed.data.lines.text as string).replace(/\r?\n$/, '');
+            const start = parsed.data.submatches?.[0]?.start as number | undefined;
             const column =
-              (parsed.data.submatches?.[0]?.start ?? lineText.indexOf(tag)) + 1;
+              (start !== undefined
+                ? byteOffsetToColumn(lineText, start)
+                : lineText.indexOf(tag)) + 1;
             matches.push({
+              folderPath,
               filePath: absolutePath,
               relativePath: fileRelative,
               lineNumber,
@@ -101,9 +126,302 @@ function runRipgrepOnFolder(
   });
 }
 
+/**
+ * Text of an open editor with unsaved changes for this file, if any. Scans
+ * prefer it over the disk copy so the diagram follows what is on screen.
+ */
+export function getUnsavedText(filePath: string): string | undefined {
+  const document = vscode.workspace.textDocuments.find(
+    (doc) => doc.isDirty && doc.uri.scheme === 'file' && doc.uri.fsPath === filePath
+  );
+  return document?.getText();
+}
+
+/** Dirty editors inside one workspace folder that the filter lets through. */
+function unsavedDocumentsIn(filter: ScanFilter): Map<string, string> {
+  const texts = new Map<string, string>();
+  for (const document of vscode.workspace.textDocuments) {
+    if (!document.isDirty || document.uri.scheme !== 'file') {
+      continue;
+    }
+    const relative = path.relative(filter.folderPath, document.uri.fsPath);
+    if (!filter.isExcluded(relative)) {
+      texts.set(document.uri.fsPath, document.getText());
+    }
+  }
+  return texts;
+}
+
+function toPosixRelative(folderPath: string, absolutePath: string): string {
+  return path.relative(folderPath, absolutePath).split(path.sep).join('/');
+}
+
+function findMatchesInLines(
+  lines: string[],
+  tag: string,
+  folderPath: string,
+  filePath: string,
+  relativePath: string
+): RipgrepMatch[] {
+  const matches: RipgrepMatch[] = [];
+  for (let i = 0; i < lines.length; i += 1) {
+    const column = lines[i].indexOf(tag);
+    if (column < 0) {
+      continue;
+    }
+    matches.push({
+      folderPath,
+      filePath,
+      relativePath,
+      lineNumber: i + 1,
+      column: column + 1,
+      isoLine: 0, // to be filled later
+      lineText: lines[i],
+    });
+  }
+  return matches;
+}
+
+/**
+ * Pure-TypeScript replacement for ripgrep. Walks the folder with the same
+ * exclusions and produces identical match records so the rest of the
+ * pipeline does not care which backend ran.
+ */
+async function runBuiltinScanOnFolder(
+  filter: ScanFilter,
+  tag: string
+): Promise<RipgrepMatch[]> {
+  const folderPath = filter.folderPath;
+  const matches: RipgrepMatch[] = [];
+  const pending: string[] = [folderPath];
+
+  while (pending.length > 0) {
+    const dir = pending.pop() as string;
+    let entries: fs.Dirent[];
+    try {
+      entries = await fs.promises.readdir(dir, { withFileTypes: true });
+    } catch {
+      continue; // unreadable directory, ripgrep skips these too
+    }
+
+    for (const entry of entries) {
+      const absolutePath = path.join(dir, entry.name);
+      // Ancestors were already checked on the way down
+      if (filter.isExcluded(toPosixRelative(folderPath, absolutePath), entry.isDirectory(), false)) {
+        continue;
+      }
+      if (entry.isDirectory()) {
+        pending.push(absolutePath);
+        continue;
+      }
+      if (!entry.isFile()) {
+        continue;
+      }
+
+      let buffer: Buffer;
+      try {
+        const stat = await fs.promises.stat(absolutePath);
+        if (stat.size > BUILTIN_MAX_FILE_BYTES) {
+          continue;
+        }
+        buffer = await fs.promises.readFile(absolutePath);
+      } catch {
+        continue;
+      }
+
+      // Mirror ripgrep's binary detection: a NUL byte means "not text"
+      if (buffer.includes(0)) {
+        continue;
+      }
+      const text = buffer.toString('utf8');
+      if (!text.includes(tag)) {
+        continue;
+      }
+
+      const relativePath = toPosixRelative(folderPath, absolutePath);
+      matches.push(
+        ...findMatchesInLines(text.split(/\r?\n/), tag, folderPath, absolutePath, relativePath)
+      );
+    }
+  }
+
+  matches.sort(
+    (a, b) => a.relativePath.localeCompare(b.relativePath) || a.lineNumber - b.lineNumber
+  );
+  return matches;
+}
+
+/** True once 'auto' mode has fallen back to the built-in scanner. */
+export function isUsingBuiltinFallback(): boolean {
+  return ripgrepUnavailable;
+}
+
+async function findTagMatches(
+  filter: ScanFilter,
+  tag: string,
+  backend: ScannerBackend
+): Promise<RipgrepMatch[]> {
+  if (backend === 'builtin' || (backend === 'auto' && ripgrepUnavailable)) {
+    return runBuiltinScanOnFolder(filter, tag);
+  }
+
+  try {
+    return await runRipgrepOnFolder(filter, tag);
+  } catch (error) {
+    if (backend === 'auto' && isSpawnMissing(error)) {
+      ripgrepUnavailable = true;
+      return runBuiltinScanOnFolder(filter, tag);
+    }
+    throw error;
+  }
+}
+
+export interface FlowCommentEdges {
+  crossDeclared: boolean;
+  flowName: string;
+  edges: Array<{ currentNode: string; nextNode: string; label?: string }>;
+}
+
+const NODE_PATTERN = '[^\\s,=>]+';
+const NODE_GROUP_PATTERN = `${NODE_PATTERN}(?:\\s*,\\s*${NODE_PATTERN})*`;
+// Plain `=>` or labelled `=[label]=>`
+const ARROW_PATTERN = '(?:=\\[[^\\]]*\\]=>|=>)';
+
+/**
+ * Parse the body of a flow comment into its edges. Besides the basic
+ * `FLOW : a => b` form this accepts fan-out (`a => b, c`), chains
+ * (`a => b => c`) and labelled arrows (`a =[on error]=> b`); every node in one
+ * group connects to every node in the next.
+ * Returns undefined if the line does not follow the grammar.
+ */
+export function parseFlowComment(lineText: string, tag: string): FlowCommentEdges | undefined {
+  const rawText = lineText.trim();
+  const idx = rawText.toLowerCase().indexOf(tag.toLowerCase());
+  const body = idx >= 0 ? rawText.slice(idx + tag.length).trim() : rawText;
+
+  const pattern = new RegExp(
+    `^(cross\\s+)?([^\\s:]+)\\s*:\\s*(${NODE_GROUP_PATTERN}(?:\\s*${ARROW_PATTERN}\\s*${NODE_GROUP_PATTERN})+)`,
+    'i'
+  );
+  const match = pattern.exec(body);
+  if (!match) {
+    return undefined;
+  }
+
+  const [, crossToken, flowName, chain] = match;
+  // Splitting on a capturing pattern keeps the arrows at odd indices
+  const parts = chain.split(new RegExp(`\\s*(${ARROW_PATTERN})\\s*`));
+
+  const edges: FlowCommentEdges['edges'] = [];
+  for (let i = 0; i + 2 < parts.length; i += 2) {
+    const arrow = parts[i + 1];
+    const label = arrow.startsWith('=[') ? arrow.slice(2, -3).trim() : '';
+    for (const currentNode of parts[i].split(/\s*,\s*/)) {
+      for (const nextNode of parts[i + 2].split(/\s*,\s*/)) {
+        edges.push(label ? { currentNode, nextNode, label } : { currentNode, nextNode });
+      }
+    }
+  }
+
+  return { crossDeclared: Boolean(crossToken), flowName, edges };
+}
+
+const NODE_DECLARATION_PATTERN = new RegExp(
+  `^([^\\s:]+)\\s*:\\s*node\\s+(${NODE_PATTERN})((?:\\s+\\[(?:start|end)\\])*)(?:\\s+"((?:[^"\\\\]|\\\\.)*)")?`,
+  'i'
+);
+
+/**
+ * Parse a `FLOW : node NAME [start] [end] "description"` declaration. Markers
+ * and description are each optional, but at least one must be present.
+ */
+export function parseNodeDeclaration(
+  lineText: string,
+  tag: string
+):
+  | { flowName: string; nodeName: string; description?: string; markers: NodeMarker[] }
+  | undefined {
+  const rawText = lineText.trim();
+  const idx = rawText.toLowerCase().indexOf(tag.toLowerCase());
+  const body = idx >= 0 ? rawText.slice(idx + tag.length).trim() : rawText;
+
+  const match = NODE_DECLARATION_PATTERN.exec(body);
+  if (!match) {
+    return undefined;
+  }
+  const [, flowName, nodeName, markerText, description] = match;
+  const markers = Array.from(
+    new Set((markerText.match(/start|end/gi) ?? []).map((m) => m.toLowerCase() as NodeMarker))
+  );
+  if (markers.length === 0 && description === undefined) {
+    return undefined;
+  }
+  return {
+    flowName,
+    nodeName,
+    description: description?.replace(/\\(.)/g, '$1'),
+    markers,
+  };
+}
+
+const FLOW_ATTRIBUTES = new Set(['description', 'tags', 'owner']);
+
+/**
+ * Parse a `flow FLOW key=value ...` metadata directive. Values may be bare
+ * words or double-quoted strings. Returns undefined if the line is not a flow
+ * directive, or an error message if it is one but cannot be understood.
+ */
+export function parseFlowDeclaration(
+  lineText: string,
+  tag: string
+):
+  | { flowName: string; description?: string; tags?: string[]; owner?: string }
+  | { error: string }
+  | undefined {
+  const rawText = lineText.trim();
+  const idx = rawText.toLowerCase().indexOf(tag.toLowerCase());
+  const body = idx >= 0 ? rawText.slice(idx + tag.length).trim() : rawText;
+
+  const head = /^flow\s+([^\s:=]+)(?=\s|$)/i.exec(body);
+  if (!head) {
+    return undefined;
+  }
+
+  const attributes = new Map<string, string>();
+  const attributePattern = /\s*([A-Za-z]+)=(?:"((?:[^"\\]|\\.)*)"|(\S+))/y;
+  attributePattern.lastIndex = head[0].length;
+  let rest = body.slice(head[0].length);
+  let match: RegExpExecArray | null;
+  while ((match = attributePattern.exec(body))) {
+    const [, key, quoted, bare] = match;
+    if (!FLOW_ATTRIBUTES.has(key.toLowerCase())) {
+      return { error: `Unknown flow attribute "${key}" (expected description, tags or owner)` };
+    }
+    attributes.set(key.toLowerCase(), quoted !== undefined ? quoted.replace(/\\(.)/g, '$1') : bare);
+    rest = body.slice(attributePattern.lastIndex);
+  }
+
+  // Anything left over must be a block-comment terminator or whitespace
+  if (rest.trim() && !/^(\*\/|-->)$/.test(rest.trim())) {
+    return { error: `Could not parse flow attributes near "${rest.trim()}"` };
+  }
+
+  const tags = attributes.get('tags');
+  return {
+    flowName: head[1],
+    description: attributes.get('description'),
+    tags: tags
+      ?.split(',')
+      .map((t) => t.trim())
+      .filter((t) => t.length > 0),
+    owner: attributes.get('owner'),
+  };
+}
+
 function parseCommentLine(
   lineText: string,
   tag: string,
+  folderPath: string,
   filePath: string,
   relativePath: string,
   lineNumber: number,
@@ -112,132 +430,339 @@ function parseCommentLine(
   contextBefore: string[],
   contextLine: string,
   contextAfter: string[]
-): { parsed?: ParsedComment; malformed?: MalformedComment } {
+): {
+  parsed?: ParsedComment[];
+  malformed?: MalformedComment;
+  node?: NodeDeclaration;
+  flow?: FlowDeclaration;
+} {
   const rawText = lineText.trim();
-  const idx = rawText.toLowerCase().indexOf(tag.toLowerCase());
-  const body = idx >= 0 ? rawText.slice(idx + tag.length).trim() : rawText;
+  // Parse from the commented tag, not an earlier one inside a string literal
+  const commentText = lineText.slice(Math.max(0, column - 1));
 
-  const crossPattern = new RegExp(
-    `^(cross\\s+)?([^\\s:]+)\\s*:\\s*([^\\s=>]+)\\s*=>\\s*(\\S+)`,
-    'i'
-  );
-  const match = crossPattern.exec(body);
+  const flowDeclaration = parseFlowDeclaration(commentText, tag);
+  if (flowDeclaration && 'error' in flowDeclaration) {
+    return {
+      malformed: { filePath, lineNumber, column, rawText, reason: flowDeclaration.error },
+    };
+  }
+  if (flowDeclaration) {
+    return {
+      flow: {
+        ...flowDeclaration,
+        folderPath,
+        filePath,
+        relativePath,
+        line: lineNumber,
+        column,
+        rawComment: rawText,
+      },
+    };
+  }
 
-  if (!match) {
+  const declaration = parseNodeDeclaration(commentText, tag);
+  if (declaration) {
+    return {
+      node: {
+        ...declaration,
+        folderPath,
+        filePath,
+        relativePath,
+        line: lineNumber,
+        column,
+        rawComment: rawText,
+      },
+    };
+  }
+
+  const comment = parseFlowComment(commentText, tag);
+
+  if (!comment) {
     return {
       malformed: {
         filePath,
         lineNumber,
+        column,
         rawText,
         reason:
-          'Comment does not match "[tag] [cross] FLOW : CURRENT => NEXT" format',
+          'Comment does not match "[tag] [cross] FLOW : CURRENT =[label]=> NEXT[, NEXT...] [=> ...]", "[tag] FLOW : node NAME [start] [end] "description"" or "[tag] flow FLOW key=value..." format',
       },
     };
   }
 
-  const [, crossToken, flowName, currentNode, nextNode] = match;
-
+  // One physical comment can carry several edges; each becomes its own ParsedComment
   return {
-    parsed: {
-      flowName,
+    parsed: comment.edges.map(({ currentNode, nextNode, label }) => ({
+      flowName: comment.flowName,
       currentNode,
       nextNode,
-      crossDeclared: Boolean(crossToken),
+      label,
+      crossDeclared: comment.crossDeclared,
       rawComment: rawText,
       line: lineNumber,
       isoLine,
       column,
+      folderPath,
       filePath,
       relativePath,
       contextBefore,
       contextLine,
       contextAfter,
-    },
+    })),
   };
 }
 
-export async function scanWorkspace(
+/**
+ * Keep only matches where the tag sits inside a real comment for the file's
+ * language (string literals and code are ignored). The column is moved to the
+ * first commented occurrence on the line. Files in unknown languages are
+ * passed through unchanged.
+ */
+function filterCommentMatches(
+  matches: RipgrepMatch[],
+  fullText: string,
   tag: string,
-  contextLines: number
-): Promise<ScanResult> {
-  const workspaceFolders = vscode.workspace.workspaceFolders;
-  if (!workspaceFolders || workspaceFolders.length === 0) {
-    return { parsed: [], malformed: [] };
+  syntaxTable: CommentSyntaxTable
+): RipgrepMatch[] {
+  if (matches.length === 0) {
+    return matches;
+  }
+  const syntax = getCommentSyntax(matches[0].filePath, syntaxTable);
+  if (!syntax) {
+    return matches;
   }
 
+  const ranges = findCommentRanges(fullText, syntax);
+  const lineStarts = [0];
+  for (let i = 0; i < fullText.length; i += 1) {
+    if (fullText[i] === '\n') {
+      lineStarts.push(i + 1);
+    }
+  }
+
+  const kept: RipgrepMatch[] = [];
+  for (const match of matches) {
+    const lineStart = lineStarts[match.lineNumber - 1] ?? 0;
+    let column = match.lineText.indexOf(tag);
+    while (column >= 0 && !isInRanges(lineStart + column, ranges)) {
+      column = match.lineText.indexOf(tag, column + tag.length);
+    }
+    if (column >= 0) {
+      kept.push({ ...match, column: column + 1 });
+    }
+  }
+  return kept;
+}
+
+function parseFileMatches(
+  allMatches: RipgrepMatch[],
+  fullText: string,
+  tag: string,
+  contextLines: number,
+  syntaxTable: CommentSyntaxTable
+): Omit<FileScanEntry, 'folderPath' | 'filePath' | 'mtimeMs' | 'unsaved'> {
+  const matches = filterCommentMatches(allMatches, fullText, tag, syntaxTable);
   const parsed: ParsedComment[] = [];
   const malformed: MalformedComment[] = [];
+  const nodes: NodeDeclaration[] = [];
+  const flowDeclarations: FlowDeclaration[] = [];
 
-  for (const folder of workspaceFolders) {
-    const folderPath = folder.uri.fsPath;
-    const matches = await runRipgrepOnFolder(folderPath, tag);
+  const lines = fullText.split(/\r?\n/);
+  const isoLines: number[] = [];
+  let flowlessCounter = 0;
+  for (let i = 0; i < lines.length; i += 1) {
+    if (!lines[i].includes(tag)) {
+      flowlessCounter += 1;
+    }
+    isoLines[i] = flowlessCounter;
+  }
 
-    // Cache file contents so we only read once per file
-    const contentCache = new Map<string, string[]>();
-    const textCache = new Map<string, string>();
-    const isoCache = new Map<string, number[]>();
+  for (const match of matches) {
+    const idx = Math.max(0, match.lineNumber - 1);
+    const beforeStart = Math.max(0, idx - contextLines);
+    const afterEnd = Math.min(lines.length, idx + 1 + contextLines);
+    const contextBefore = lines.slice(beforeStart, idx);
+    const contextLine = lines[idx] ?? match.lineText;
+    const contextAfter = lines.slice(idx + 1, afterEnd);
 
-    for (const match of matches) {
-      let lines = contentCache.get(match.filePath);
-      let fullText = textCache.get(match.filePath);
-      let isoLines = isoCache.get(match.filePath);
-
-      if (!lines || !fullText || !isoLines) {
-        fullText = await fs.promises.readFile(match.filePath, 'utf8');
-        lines = fullText.split(/\r?\n/);
-        const isoArray: number[] = [];
-        let flowlessCounter = 0;
-        for (let i = 0; i < lines.length; i += 1) {
-          const text = lines[i];
-          const hasTag = text.includes(tag);
-          if (!hasTag) {
-            flowlessCounter += 1;
-          }
-          isoArray[i] = flowlessCounter;
-        }
-        contentCache.set(match.filePath, lines);
-        textCache.set(match.filePath, fullText);
-        isoCache.set(match.filePath, isoArray);
-        isoLines = isoArray;
-      }
-
-      const idx = Math.max(0, match.lineNumber - 1);
-      const beforeStart = Math.max(0, idx - contextLines);
-      const afterEnd = Math.min(lines.length, idx + 1 + contextLines);
-      const contextBefore = lines.slice(beforeStart, idx);
-      const contextLine = lines[idx] ?? match.lineText;
-      const contextAfter = lines.slice(idx + 1, afterEnd);
+    const result = parseCommentLine(
+      lines[idx] ?? match.lineText,
+      tag,
+      match.folderPath,
+      match.filePath,
+      match.relativePath,
+      match.lineNumber,
+      isoLines[idx] ?? match.lineNumber,
+      match.column,
+      contextBefore,
+      contextLine,
+      contextAfter
+    );
 
-      const result = parseCommentLine(
-        lines[idx] ?? match.lineText,
-        tag,
+    if (result.parsed) {
+      const symbolInfo = inferSymbolAtPosition(
         match.filePath,
-        match.relativePath,
+        fullText,
         match.lineNumber,
-        isoLines ? isoLines[idx] : match.lineNumber,
-        match.column,
-        contextBefore,
-        contextLine,
-        contextAfter
+        match.column
       );
-
-      if (result.parsed) {
-        const symbolInfo = inferSymbolAtPosition(
-          match.filePath,
-          fullText,
-          match.lineNumber,
-          match.column
-        );
+      const astAnchor = inferAstAnchor(match.filePath, fullText, match.lineNumber);
+      for (const edge of result.parsed) {
         parsed.push({
-          ...result.parsed,
+          ...edge,
           symbolPath: symbolInfo.symbolPath ?? null,
           nodeType: symbolInfo.nodeType ?? null,
+          astAnchor: astAnchor ?? null,
         });
-      } else if (result.malformed) {
-        malformed.push(result.malformed);
       }
+    } else if (result.node) {
+      nodes.push(result.node);
+    } else if (result.flow) {
+      flowDeclarations.push(result.flow);
+    } else if (result.malformed) {
+      malformed.push(result.malformed);
+    }
+  }
+
+  return { parsed, malformed, nodes, flowDeclarations };
+}
+
+/**
+ * Scan a single file without running a search backend. Returns undefined when
+ * the file cannot be read (deleted, permissions), so callers can drop it from
+ * their index.
+ */
+export async function scanFile(
+  folderPath: string,
+  filePath: string,
+  tag: string,
+  contextLines: number
+): Promise<FileScanEntry | undefined> {
+  const unsavedText = getUnsavedText(filePath);
+  let fullText: string;
+  let mtimeMs: number;
+  try {
+    const stat = await fs.promises.stat(filePath);
+    fullText = unsavedText ?? (await fs.promises.readFile(filePath, 'utf8'));
+    mtimeMs = stat.mtimeMs;
+  } catch {
+    return undefined;
+  }
+
+  const relativePath = toPosixRelative(folderPath, filePath);
+  const matches = findMatchesInLines(
+    fullText.split(/\r?\n/),
+    tag,
+    folderPath,
+    filePath,
+    relativePath
+  );
+  const result = parseFileMatches(
+    matches,
+    fullText,
+    tag,
+    contextLines,
+    getCommentSyntaxOverrides()
+  );
+  return { folderPath, filePath, mtimeMs, unsaved: unsavedText !== undefined, ...result };
+}
+
+/** Full workspace scan, grouped per file so results can seed an incremental index. */
+export async function scanWorkspaceFiles(
+  tag: string,
+  contextLines: number,
+  workspaceFolders: readonly vscode.WorkspaceFolder[] | undefined = vscode.workspace
+    .workspaceFolders
+): Promise<FileScanEntry[]> {
+  if (!workspaceFolders || workspaceFolders.length === 0) {
+    return [];
+  }
+
+  const entries: FileScanEntry[] = [];
+  const backend = getScannerBackend();
+  const syntaxTable = getCommentSyntaxOverrides();
+
+  for (const folder of workspaceFolders) {
+    const folderPath = folder.uri.fsPath;
+    const filter = ScanFilter.forFolder(folderPath);
+    const unsaved = unsavedDocumentsIn(filter);
+
+    // The backends search the disk copies; dirty editors replace those matches
+    const matches = (await findTagMatches(filter, tag, backend)).filter(
+      (match) => !unsaved.has(match.filePath)
+    );
+    for (const [filePath, text] of unsaved) {
+      const relativePath = toPosixRelative(folderPath, filePath);
+      matches.push(
+        ...findMatchesInLines(text.split(/\r?\n/), tag, folderPath, filePath, relativePath)
+      );
+    }
+
+    // Group matches so each file is read only once
+    const byFile = new Map<string, RipgrepMatch[]>();
+    for (const match of matches) {
+      const list = byFile.get(match.filePath) ?? [];
+      list.push(match);
+      byFile.set(match.filePath, list);
+    }
+
+    for (const [filePath, fileMatches] of byFile) {
+      const unsavedText = unsaved.get(filePath);
+      let fullText: string;
+      let mtimeMs: number;
+      try {
+        const [text, stat] = await Promise.all([
+          unsavedText ?? fs.promises.readFile(filePath, 'utf8'),
+          fs.promises.stat(filePath),
+        ]);
+        fullText = text;
+        mtimeMs = stat.mtimeMs;
+      } catch {
+        continue; // deleted or unreadable since the search listed it
+      }
+      const result = parseFileMatches(fileMatches, fullText, tag, contextLines, syntaxTable);
+      entries.push({
+        folderPath,
+        filePath,
+        mtimeMs,
+        unsaved: unsavedText !== undefined,
+        ...result,
+      });
     }
   }
 
-  return { parsed, malformed };
+  return entries;
+}
+
+export async function scanWorkspace(
+  tag: string,
+  contextLines: number,
+  workspaceFolders?: readonly vscode.WorkspaceFolder[]
+): Promise<ScanResult> {
+  const entries = await scanWorkspaceFiles(
+    tag,
+    contextLines,
+    workspaceFolders ?? vscode.workspace.workspaceFolders
+  );
+  return buildScanResult(entries);
+}
+
+/**
+ * Flatten per-file entries into one result. Node and flow declarations are
+ * only validated here because conflicts can span files.
+ */
+export function buildScanResult(entries: FileScanEntry[]): ScanResult {
+  const nodes = entries.flatMap((entry) => entry.nodes);
+  const flowDeclarations = entries.flatMap((entry) => entry.flowDeclarations);
+  return {
+    parsed: entries.flatMap((entry) => entry.parsed),
+    malformed: [
+      ...entries.flatMap((entry) => entry.malformed),
+      ...resolveNodeDescriptions(nodes).conflicts,
+      ...resolveFlowMetadata(flowDeclarations).conflicts,
+    ],
+    nodes,
+    flowDeclarations,
+    unsavedFiles: entries.filter((entry) => entry.unsaved).map((entry) => entry.filePath),
+  };
 }
@@ -1,10 +1,27 @@
-import { DuplicateEdge, FlowRecord, FlowSummary, MissingEdge, MovedEdge, ParsedComment } from './types';
+import {
+  DuplicateEdge,
+  FlowDeclaration,
+  FlowMetadata,
+  FlowRecord,
+  FlowSummary,
+  MalformedComment,
+  MissingEdge,
+  MovedEdge,
+  NodeDeclaration,
+  ParsedComment,
+  ScanResult,
+} from './types';
 
 /** Edge identity key: flowName|currentNode|nextNode */
 function edgeKey(flowName: string, currentNode: string, nextNode: string): string {
   return `${flowName}|${currentNode}|${nextNode}`;
 }
 
+function sameDescriptions(a: Record<string, string>, b: Record<string, string>): boolean {
+  const keys = Object.keys(a);
+  return keys.length === Object.keys(b).length && keys.every((key) => a[key] === b[key]);
+}
+
 /** Detect duplicate edges within a flow's comments */
 function detectDuplicates(comments: ParsedComment[]): DuplicateEdge[] {
   const byKey = new Map<string, ParsedComment[]>();
@@ -26,6 +43,7 @@ function detectDuplicates(comments: ParsedComment[]): DuplicateEdge[] {
         locations: group.map((c) => ({
           filePath: c.filePath,
           lineNumber: c.line,
+          column: c.column,
         })),
       });
     }
@@ -34,10 +52,183 @@ function detectDuplicates(comments: ParsedComment[]): DuplicateEdge[] {
   return duplicates;
 }
 
+/**
+ * Aggregate node declarations into per-flow description maps. The first
+ * declaration of a node wins; later ones with a different text are reported.
+ */
+export function resolveNodeDescriptions(nodes: NodeDeclaration[]): {
+  byFlow: Map<string, Record<string, string>>;
+  conflicts: MalformedComment[];
+} {
+  const byFlow = new Map<string, Record<string, string>>();
+  const firstSeen = new Map<string, NodeDeclaration>();
+  const conflicts: MalformedComment[] = [];
+
+  for (const node of nodes) {
+    if (node.description === undefined) {
+      continue;
+    }
+    const key = `${node.flowName}|${node.nodeName}`;
+    const first = firstSeen.get(key);
+    if (first) {
+      if (first.description !== node.description) {
+        conflicts.push({
+          filePath: node.filePath,
+          lineNumber: node.line,
+          column: node.column,
+          rawText: node.rawComment,
+          reason: `Conflicting description for node "${node.nodeName}" in flow "${node.flowName}" (first declared at ${first.relativePath}:${first.line})`,
+        });
+      }
+      continue;
+    }
+    firstSeen.set(key, node);
+    const descriptions = byFlow.get(node.flowName) ?? {};
+    descriptions[node.nodeName] = node.description;
+    byFlow.set(node.flowName, descriptions);
+  }
+
+  return { byFlow, conflicts };
+}
+
+/** Collect `[start]` / `[end]` markers per flow, sorted and de-duplicated. */
+export function resolveNodeMarkers(
+  nodes: NodeDeclaration[]
+): Map<string, { startNodes: string[]; endNodes: string[] }> {
+  const byFlow = new Map<string, { start: Set<string>; end: Set<string> }>();
+  for (const node of nodes) {
+    const markers = byFlow.get(node.flowName) ?? { start: new Set(), end: new Set() };
+    for (const marker of node.markers) {
+      markers[marker].add(node.nodeName);
+    }
+    byFlow.set(node.flowName, markers);
+  }
+
+  const resolved = new Map<string, { startNodes: string[]; endNodes: string[] }>();
+  for (const [flowName, { start, end }] of byFlow) {
+    if (start.size > 0 || end.size > 0) {
+      resolved.set(flowName, {
+        startNodes: Array.from(start).sort(),
+        endNodes: Array.from(end).sort(),
+      });
+    }
+  }
+  return resolved;
+}
+
+/**
+ * Graph checks enabled by markers: nodes that no start node leads to, and
+ * nodes other than end nodes that have nowhere to go. Each check only runs
+ * when the flow declares the corresponding marker.
+ */
+export function validateGraph(
+  nodes: string[],
+  edges: Array<{ currentPos: string; nextPos: string }>,
+  startNodes: string[],
+  endNodes: string[]
+): { unreachable: string[]; deadEnds: string[] } {
+  const outgoing = new Map<string, string[]>();
+  for (const edge of edges) {
+    const list = outgoing.get(edge.currentPos) ?? [];
+    list.push(edge.nextPos);
+    outgoing.set(edge.currentPos, list);
+  }
+
+  let unreachable: string[] = [];
+  if (startNodes.length > 0) {
+    const reached = new Set<string>(startNodes);
+    const queue = [...startNodes];
+    while (queue.length > 0) {
+      for (const next of outgoing.get(queue.shift()!) ?? []) {
+        if (!reached.has(next)) {
+          reached.add(next);
+          queue.push(next);
+        }
+      }
+    }
+    unreachable = nodes.filter((node) => !reached.has(node));
+  }
+
+  const deadEnds =
+    endNodes.length > 0
+      ? nodes.filter((node) => !outgoing.has(node) && !endNodes.includes(node))
+      : [];
+
+  return { unreachable, deadEnds };
+}
+
+function sameNodeList(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((node) => b.includes(node));
+}
+
+/**
+ * Merge `flow` directives into per-flow metadata. Tags are unioned across
+ * declarations; a description or owner that disagrees with an earlier one is
+ * reported and ignored.
+ */
+export function resolveFlowMetadata(declarations: FlowDeclaration[]): {
+  byFlow: Map<string, FlowMetadata>;
+  conflicts: MalformedComment[];
+} {
+  const byFlow = new Map<string, FlowMetadata>();
+  const firstSeen = new Map<string, FlowDeclaration>();
+  const conflicts: MalformedComment[] = [];
+
+  for (const declaration of declarations) {
+    const metadata = byFlow.get(declaration.flowName) ?? { tags: [] };
+    for (const field of ['description', 'owner'] as const) {
+      const value = declaration[field];
+      if (value === undefined) {
+        continue;
+      }
+      const key = `${declaration.flowName}|${field}`;
+      const first = firstSeen.get(key);
+      if (first && first[field] !== value) {
+        conflicts.push({
+          filePath: declaration.filePath,
+          lineNumber: declaration.line,
+          column: declaration.column,
+          rawText: declaration.rawComment,
+          reason: `Conflicting ${field} for flow "${declaration.flowName}" (first declared at ${first.relativePath}:${first.line})`,
+        });
+        continue;
+      }
+      firstSeen.set(key, declaration);
+      metadata[field] = value;
+    }
+    for (const tag of declaration.tags ?? []) {
+      if (!metadata.tags.includes(tag)) {
+        metadata.tags.push(tag);
+      }
+    }
+    byFlow.set(declaration.flowName, metadata);
+  }
+
+  return { byFlow, conflicts };
+}
+
+function sameMetadata(a: FlowMetadata, b: FlowMetadata): boolean {
+  return (
+    (a.description ?? '') === (b.description ?? '') &&
+    (a.owner ?? '') === (b.owner ?? '') &&
+    a.tags.length === b.tags.length &&
+    a.tags.every((tag) => b.tags.includes(tag))
+  );
+}
+
+/**
+ * Compare one workspace folder's DB flows with the comments scanned from that
+ * folder. `folder` is the folder's id (its URI) and `folderName` its display
+ * name; both are stamped on every summary.
+ */
 export function computeFlowSummaries(
   flows: FlowRecord[],
-  parsedComments: ParsedComment[]
+  scan: Pick<ScanResult, 'parsed' | 'nodes' | 'flowDeclarations' | 'unsavedFiles'>,
+  folder: string,
+  folderName: string
 ): FlowSummary[] {
+  const { parsed: parsedComments, nodes: nodeDeclarations, flowDeclarations } = scan;
+  const unsavedFiles = new Set(scan.unsavedFiles);
   const parsedByFlow = new Map<string, ParsedComment[]>();
   for (const comment of parsedComments) {
     const list = parsedByFlow.get(comment.flowName) ?? [];
@@ -45,6 +236,10 @@ export function computeFlowSummaries(
     parsedByFlow.set(comment.flowName, list);
   }
 
+  const { byFlow: declaredDescriptions } = resolveNodeDescriptions(nodeDeclarations);
+  const { byFlow: declaredMetadata } = resolveFlowMetadata(flowDeclarations);
+  const declaredMarkers = resolveNodeMarkers(nodeDeclarations);
+
   const summaries: FlowSummary[] = [];
   const allFlowNames = new Set<string>([
     ...flows.map((f) => f.name),
@@ -71,6 +266,7 @@ export function computeFlowSummaries(
 
     // Match DB annotations against unique source comments and detect moved/missing edges
     let present = 0;
+    let relabeled = 0;
     const matchedCommentKeys = new Set<string>();
     const moved: MovedEdge[] = [];
     const missing: MissingEdge[] = [];
@@ -90,6 +286,11 @@ export function computeFlowSummaries(
           present += 1;
           matchedCommentKeys.add(key);
 
+          // Labels are not part of edge identity, but a changed label still means the DB is stale
+          if ((annotation.label ?? '') !== (matchingComment.label ?? '')) {
+            relabeled += 1;
+          }
+
           // Check if location differs (file or line)
           const dbFile = annotation.filePath;
           const dbLine = annotation.line;
@@ -135,7 +336,31 @@ export function computeFlowSummaries(
     }).length;
 
     const total = dbFlow ? dbFlow.annotations.length : 0;
-    const dirty = dbFlow ? present !== total || extras > 0 : true;
+    const describedInSource = declaredDescriptions.get(flowName) ?? {};
+    const descriptionsChanged =
+      comments.length > 0 && !sameDescriptions(describedInSource, dbFlow?.nodeDescriptions ?? {});
+    const markedInSource = declaredMarkers.get(flowName) ?? { startNodes: [], endNodes: [] };
+    const markersChanged =
+      comments.length > 0 &&
+      (!sameNodeList(markedInSource.startNodes, dbFlow?.startNodes ?? []) ||
+        !sameNodeList(markedInSource.endNodes, dbFlow?.endNodes ?? []));
+    const dbMetadata: FlowMetadata = {
+      description: dbFlow?.description || undefined,
+      tags: dbFlow?.tags ?? [],
+      owner: dbFlow?.owner || undefined,
+    };
+    // Without a `flow` directive in source the DB values stand (they may have been edited by hand)
+    const sourceMetadata = declaredMetadata.get(flowName);
+    const metadata = sourceMetadata ?? dbMetadata;
+    const metadataChanged = !sameMetadata(metadata, dbMetadata);
+    const dirty = dbFlow
+      ? present !== total ||
+        extras > 0 ||
+        relabeled > 0 ||
+        descriptionsChanged ||
+        markersChanged ||
+        metadataChanged
+      : true;
 
     // Determine status with priority: duplicates > missing > moved > partial > loaded > notLoaded
     let status: 'loaded' | 'partial' | 'notLoaded' | 'duplicates' | 'moved' | 'missing' = 'notLoaded';
@@ -166,6 +391,7 @@ export function computeFlowSummaries(
               nextPos: c.nextNode,
               filePath: c.filePath,
               lineNumber: c.line,
+              label: c.label,
             };
           })
         : (dbFlow?.annotations ?? []).map((annotation) => {
@@ -177,6 +403,7 @@ export function computeFlowSummaries(
               nextPos: annotation.nextNode,
               filePath: annotation.filePath,
               lineNumber: annotation.line,
+              label: annotation.label,
             };
           });
 
@@ -185,12 +412,28 @@ export function computeFlowSummaries(
         ? comments.some((c) => c.crossDeclared) || dbFlow?.declaredCross === true
         : dbFlow?.declaredCross ?? false;
     const isCross = dbFlow?.isCross ?? declaredCross;
+    const nodeDescriptions =
+      comments.length > 0 ? describedInSource : dbFlow?.nodeDescriptions ?? {};
+    const { startNodes, endNodes } =
+      comments.length > 0
+        ? markedInSource
+        : { startNodes: dbFlow?.startNodes ?? [], endNodes: dbFlow?.endNodes ?? [] };
+    const sortedNodes = Array.from(nodes).sort();
+    const { unreachable, deadEnds } = validateGraph(sortedNodes, edges, startNodes, endNodes);
+    const fromUnsavedBuffer = [
+      ...comments,
+      ...nodeDeclarations.filter((node) => node.flowName === flowName),
+      ...flowDeclarations.filter((declaration) => declaration.flowName === flowName),
+    ].some((item) => unsavedFiles.has(item.filePath));
 
     summaries.push({
-      id: dbFlow?.id ?? `unsaved::${flowName}`,
+      id: dbFlow?.id ?? `unsaved::${folder}::${flowName}`,
+      folder,
+      folderName,
+      fromUnsavedBuffer,
       name: flowName,
       edges: edges.sort((a, b) => a.lineNumber - b.lineNumber),
-      nodes: Array.from(nodes).sort(),
+      nodes: sortedNodes,
       status,
       present,
       total,
@@ -198,6 +441,14 @@ export function computeFlowSummaries(
       declaredCross,
       isCross,
       dirty,
+      description: metadata.description,
+      tags: metadata.tags,
+      owner: metadata.owner,
+      nodeDescriptions,
+      startNodes,
+      endNodes,
+      unreachable,
+      deadEnds,
       duplicates,
       moved,
       missing,
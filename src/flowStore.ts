@@ -4,6 +4,12 @@ import { parse as parseJsonc } from 'jsonc-parser';
 import * as vscode from 'vscode';
 import { getContextLineCount, getDbPath } from './config';
 import { getRepoId } from './git';
+import {
+  CURRENT_SCHEMA_VERSION,
+  RawDatabase,
+  migrateDatabase,
+  schemaVersionOf,
+} from './migrations';
 import {
   FlowDatabase,
   FlowGraph,
@@ -11,20 +17,17 @@ import {
   MalformedComment,
 } from './types';
 
-const CURRENT_SCHEMA_VERSION = 1;
 const TOOL_VERSION = '0.1.0';
 
 function nowIso(): string {
   return new Date().toISOString();
 }
 
-function migrate(data: FlowDatabase): FlowDatabase {
-  // Only schema version 1 exists today; this is a forward-looking hook.
-  const result = { ...data };
-  if (!result.schemaVersion) {
-    result.schemaVersion = 1;
-  }
-  return result;
+function newerSchemaError(dbFile: string, version: number): Error {
+  return new Error(
+    `Flow DB at ${dbFile} uses schema version ${version}, but this FlowRider only supports ` +
+      `up to version ${CURRENT_SCHEMA_VERSION}. Update FlowRider to use it; the DB was left untouched.`
+  );
 }
 
 export class FlowStore {
@@ -46,11 +49,22 @@ export class FlowStore {
 
     if (fs.existsSync(this.dbFile)) {
       const raw = await fs.promises.readFile(this.dbFile, 'utf8');
-      const parsed = parseJsonc(raw) as FlowDatabase;
+      const parsed = parseJsonc(raw) as RawDatabase | undefined;
       if (!parsed) {
         throw new Error(`Unable to parse flow DB at ${this.dbFile}`);
       }
-      this.db = migrate(parsed);
+      const version = schemaVersionOf(parsed);
+      if (version > CURRENT_SCHEMA_VERSION) {
+        throw newerSchemaError(this.dbFile, version);
+      }
+      if (version === CURRENT_SCHEMA_VERSION) {
+        this.db = parsed as unknown as FlowDatabase;
+        return;
+      }
+      // Keep the original so a bad migration can be rolled back by hand
+      await fs.promises.writeFile(this.backupPath(version), raw, 'utf8');
+      this.db = migrateDatabase(parsed);
+      await this.save();
     } else {
       this.db = await this.createDefaultDb();
       await this.save();
@@ -61,6 +75,12 @@ export class FlowStore {
     if (!this.db) {
       return;
     }
+    // A newer FlowRider may have rewritten the file since it was loaded
+    const onDisk = await fs.promises.readFile(this.dbFile, 'utf8').catch(() => undefined);
+    const diskVersion = onDisk ? schemaVersionOf(parseJsonc(onDisk) ?? {}) : 0;
+    if (diskVersion > CURRENT_SCHEMA_VERSION) {
+      throw newerSchemaError(this.dbFile, diskVersion);
+    }
     await fs.promises.mkdir(path.dirname(this.dbFile), { recursive: true });
     const serialized = `${JSON.stringify(this.db, null, 2)}\n`;
     await fs.promises.writeFile(this.dbFile, serialized, 'utf8');
@@ -81,6 +101,10 @@ export class FlowStore {
     return this.workspaceFolder.uri.fsPath;
   }
 
+  getWorkspaceFolder(): vscode.WorkspaceFolder {
+    return this.workspaceFolder;
+  }
+
   getAllFlows(): FlowRecord[] {
     return Object.values(this.getDatabase().flows);
   }
@@ -123,6 +147,7 @@ export class FlowStore {
           nextPos: annotation.nextNode,
           filePath: path.join(this.workspaceFolder.uri.fsPath, annotation.filePath),
           lineNumber: annotation.line,
+          label: annotation.label,
         };
       });
       graphs.push({
@@ -138,6 +163,12 @@ export class FlowStore {
     return getContextLineCount();
   }
 
+  /** `flows.jsonc.v1-2026-01-31T12-00-00-000Z.bak`, next to the DB. */
+  private backupPath(version: number): string {
+    const stamp = nowIso().replace(/[:.]/g, '-');
+    return `${this.dbFile}.v${version}-${stamp}.bak`;
+  }
+
   private async createDefaultDb(): Promise<FlowDatabase> {
     const repoId = await getRepoId(this.workspaceFolder.uri.fsPath);
     const createdAt = nowIso();
@@ -1,6 +1,7 @@
 import { execFile } from 'child_process';
 import * as util from 'util';
 import * as path from 'path';
+import { CommitInfo } from './types';
 
 const execFileAsync = util.promisify(execFile);
 
@@ -38,16 +39,196 @@ export async function getRepoId(workspaceFolder: string): Promise<string> {
   }
 }
 
+/** A file's content at `commit`; the path is relative to the folder, which may be below the repo root. */
 export async function getFileAtCommit(
   workspaceFolder: string,
   commit: string,
   relativePath: string
 ): Promise<string | undefined> {
   try {
-    const target = `${commit}:${relativePath}`;
+    // `./` makes git resolve the path from the folder instead of the repo root
+    const target = `${commit}:./${relativePath}`;
     const { stdout } = await execFileAsync('git', ['show', target], { cwd: workspaceFolder });
     return stdout;
   } catch (error) {
     return undefined;
   }
 }
+
+/**
+ * Commits after `fromCommit` (exclusive) up to HEAD that touched the file,
+ * oldest first, following the first-parent chain.
+ */
+export async function getFileCommits(
+  workspaceFolder: string,
+  fromCommit: string,
+  relativePath: string
+): Promise<CommitInfo[]> {
+  try {
+    const stdout = await runGit(
+      [
+        'log',
+        '--reverse',
+        '--first-parent',
+        '--format=%H%x1f%an%x1f%aI%x1f%s',
+        `${fromCommit}..HEAD`,
+        '--',
+        relativePath,
+      ],
+      workspaceFolder
+    );
+    return stdout
+      .split('\n')
+      .filter((line) => line.length > 0)
+      .map((line) => {
+        const [hash, author, date, subject] = line.split('\x1f');
+        return { hash, author, date, subject };
+      });
+  } catch (error) {
+    return [];
+  }
+}
+
+/**
+ * Unified diff of one file between two commits; omit `toCommit` to diff
+ * against the working tree. With `renamedFrom`, the file's old path is
+ * included so a move shows up as a rename instead of an addition.
+ */
+export async function getFileDiff(
+  workspaceFolder: string,
+  fromCommit: string,
+  toCommit: string | undefined,
+  relativePath: string,
+  renamedFrom?: string
+): Promise<string | undefined> {
+  const range = toCommit ? [fromCommit, toCommit] : [fromCommit];
+  const paths = renamedFrom ? [renamedFrom, relativePath] : [relativePath];
+  try {
+    return await runGit(['diff', '-M', ...range, '--', ...paths], workspaceFolder);
+  } catch (error) {
+    return undefined;
+  }
+}
+
+function parseRenames(nameStatus: string): Array<{ from: string; to: string }> {
+  return nameStatus
+    .split('\n')
+    .map((line) => line.split('\t'))
+    .filter((parts) => parts[0].startsWith('R') && parts.length === 3)
+    .map(([, from, to]) => ({ from, to }));
+}
+
+/**
+ * Where a file that existed at `commit` lives now, or at `toRef` when given.
+ * Tries git's rename detection between the commit and the working tree (or
+ * ref) first, then replays the renames recorded commit by commit
+ * (`git log --follow` style), which still works when the file was heavily
+ * edited after the move. Paths are relative to the folder, also when it is a
+ * subdirectory of the repo. Undefined when no rename is found.
+ */
+export async function findRenamedPath(
+  workspaceFolder: string,
+  commit: string,
+  relativePath: string,
+  toRef?: string
+): Promise<string | undefined> {
+  try {
+    const target = toRef ? [commit, toRef] : [commit];
+    const direct = parseRenames(
+      await runGit(['diff', '-M', '--relative', '--name-status', ...target], workspaceFolder)
+    ).find((rename) => rename.from === relativePath);
+    if (direct) {
+      return direct.to;
+    }
+
+    const log = await runGit(
+      [
+        'log',
+        '-M',
+        '--relative',
+        '--reverse',
+        '--first-parent',
+        '--diff-filter=R',
+        '--name-status',
+        '--format=',
+        `${commit}..${toRef ?? 'HEAD'}`,
+      ],
+      workspaceFolder
+    );
+    let current = relativePath;
+    for (const rename of parseRenames(log)) {
+      if (rename.from === current) {
+        current = rename.to;
+      }
+    }
+    return current === relativePath ? undefined : current;
+  } catch (error) {
+    return undefined;
+  }
+}
+
+/** Commit hash a ref (branch, tag, remote branch, hash) points to; undefined if it does not resolve. */
+export async function resolveRef(workspaceFolder: string, ref: string): Promise<string | undefined> {
+  try {
+    return await runGit(['rev-parse', '--verify', '--quiet', `${ref}^{commit}`], workspaceFolder);
+  } catch (error) {
+    return undefined;
+  }
+}
+
+/** Local branches, remote branches and tags, most recently updated first. */
+export async function listRefs(workspaceFolder: string): Promise<string[]> {
+  try {
+    const stdout = await runGit(
+      [
+        'for-each-ref',
+        '--sort=-committerdate',
+        '--format=%(refname:short)',
+        'refs/heads',
+        'refs/remotes',
+        'refs/tags',
+      ],
+      workspaceFolder
+    );
+    return stdout.split('\n').filter((line) => line.length > 0 && !line.endsWith('/HEAD'));
+  } catch (error) {
+    return [];
+  }
+}
+
+/**
+ * Files containing at least one of the given strings verbatim, found with
+ * `git grep` so nothing has to be checked out or read one by one. Searches
+ * `ref` when given, else the working tree including untracked files that are
+ * not ignored. Paths are relative to the folder.
+ */
+export async function grepFiles(
+  workspaceFolder: string,
+  needles: string[],
+  ref?: string
+): Promise<string[]> {
+  if (needles.length === 0) {
+    return [];
+  }
+  try {
+    const stdout = await runGit(
+      [
+        'grep',
+        '-l',
+        '-F',
+        ...(ref ? [] : ['--untracked']),
+        ...needles.flatMap((needle) => ['-e', needle]),
+        ...(ref ? [ref] : []),
+        '--',
+      ],
+      workspaceFolder
+    );
+    // Matches at a ref are printed as `ref:path`
+    return stdout
+      .split('\n')
+      .filter((line) => line.length > 0)
+      .map((line) => (ref ? line.slice(ref.length + 1) : line));
+  } catch (error) {
+    return []; // exit status 1 means no match
+  }
+}
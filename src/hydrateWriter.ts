@@ -1,12 +1,35 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import { getFlowTag } from './config';
+import { parseFlowComment } from './flowParser';
 import { Annotation, FlowRecord } from './types';
 
 function isFlowComment(line: string, tag: string): boolean {
   return line.includes(tag);
 }
 
+function edgeKey(currentNode: string, nextNode: string): string {
+  return `${currentNode}|${nextNode}`;
+}
+
+/** Edge keys already declared for a flow anywhere in the file. */
+function existingEdges(lines: string[], flowName: string, tag: string): Set<string> {
+  const keys = new Set<string>();
+  for (const line of lines) {
+    if (!isFlowComment(line, tag)) {
+      continue;
+    }
+    const comment = parseFlowComment(line, tag);
+    if (!comment || comment.flowName !== flowName) {
+      continue;
+    }
+    for (const edge of comment.edges) {
+      keys.add(edgeKey(edge.currentNode, edge.nextNode));
+    }
+  }
+  return keys;
+}
+
 function findInsertionLine(lines: string[], isoLine: number, tag: string): number {
   let nonFlowCount = 0;
   for (let i = 0; i < lines.length; i += 1) {
@@ -32,6 +55,26 @@ function buildCommentLine(rawComment: string, tag: string): string {
   return `// ${tag} ${trimmed}`;
 }
 
+/**
+ * Comment text to insert for an annotation. The original raw comment is reused
+ * unless it carries several edges and some of them already exist in the file;
+ * then only this annotation's edge is written so nothing gets duplicated.
+ */
+function commentLineFor(annotation: Annotation, present: Set<string>, tag: string): string {
+  const raw = parseFlowComment(annotation.rawComment, tag);
+  const rawEdges = raw?.edges ?? [];
+  const overlaps = rawEdges.some((edge) => present.has(edgeKey(edge.currentNode, edge.nextNode)));
+  if (rawEdges.length <= 1 || !overlaps) {
+    return buildCommentLine(annotation.rawComment, tag);
+  }
+  const cross = annotation.crossDeclared ? 'cross ' : '';
+  const arrow = annotation.label ? `=[${annotation.label}]=>` : '=>';
+  return buildCommentLine(
+    `${tag} ${cross}${annotation.flowName} : ${annotation.currentNode} ${arrow} ${annotation.nextNode}`,
+    tag
+  );
+}
+
 function insertAnnotationsIntoFile(
   absPath: string,
   annotations: Annotation[],
@@ -51,19 +94,14 @@ function insertAnnotationsIntoFile(
   const sorted = [...annotations].sort((a, b) => b.isoLine - a.isoLine);
 
   for (const annotation of sorted) {
-    const existingIdx = lines.findIndex(
-      (line) =>
-        isFlowComment(line, tag) &&
-        line.includes(annotation.flowName) &&
-        line.includes(annotation.currentNode) &&
-        line.includes(annotation.nextNode)
-    );
-    if (existingIdx >= 0) {
+    // Re-parse every time: an earlier multi-edge insert may already cover this edge
+    const present = existingEdges(lines, annotation.flowName, tag);
+    if (present.has(edgeKey(annotation.currentNode, annotation.nextNode))) {
       continue; // already present
     }
 
     const insertAt = findInsertionLine(lines, annotation.isoLine, tag);
-    const commentLine = buildCommentLine(annotation.rawComment, tag);
+    const commentLine = commentLineFor(annotation, present, tag);
 
     // If target line already has a flow comment, place below to avoid conflict
     const targetIndex =
@@ -119,19 +157,70 @@ export async function insertSingleComment(
   const lines = content.split(/\r?\n/);
 
   // Avoid duplicates
-  const already = lines.some(
-    (lineText) =>
-      isFlowComment(lineText, tag) &&
-      lineText.includes(annotation.flowName) &&
-      lineText.includes(annotation.currentNode) &&
-      lineText.includes(annotation.nextNode)
-  );
-  if (already) return true;
+  const present = existingEdges(lines, annotation.flowName, tag);
+  if (present.has(edgeKey(annotation.currentNode, annotation.nextNode))) {
+    return true;
+  }
 
   const idx = Math.min(Math.max(line - 1, 0), lines.length);
   const targetIndex = idx < lines.length && isFlowComment(lines[idx], tag) ? idx + 1 : idx;
-  const commentLine = buildCommentLine(annotation.rawComment, tag);
+  const commentLine = commentLineFor(annotation, present, tag);
   lines.splice(targetIndex, 0, commentLine);
   await fs.promises.writeFile(targetPath, lines.join('\n'), 'utf8');
   return true;
 }
+
+export type MoveCommentResult = 'moved' | 'not-found' | 'shared' | 'unreadable';
+
+/**
+ * Move the comment declaring one edge from `from` to just above line `to.line`
+ * (1-based, as in candidates), keeping its text and taking the indentation of
+ * the code it lands on. Comments that declare other edges as well are left in
+ * place (`shared`): moving them would move those edges too.
+ */
+export async function moveEdgeComment(
+  workspacePath: string,
+  edge: { flowName: string; currentNode: string; nextNode: string },
+  from: { filePath: string; line: number },
+  to: { filePath: string; line: number }
+): Promise<MoveCommentResult> {
+  const tag = getFlowTag();
+  const sourcePath = path.join(workspacePath, from.filePath);
+  const targetPath = path.join(workspacePath, to.filePath);
+  const sameFile = sourcePath === targetPath;
+
+  const sourceContent = await fs.promises.readFile(sourcePath, 'utf8').catch(() => undefined);
+  const targetContent = sameFile
+    ? sourceContent
+    : await fs.promises.readFile(targetPath, 'utf8').catch(() => undefined);
+  if (sourceContent === undefined || targetContent === undefined) {
+    return 'unreadable';
+  }
+
+  const sourceLines = sourceContent.split(/\r?\n/);
+  const commentText = sourceLines[from.line - 1];
+  const comment = commentText !== undefined ? parseFlowComment(commentText, tag) : undefined;
+  const declares = comment?.edges.some(
+    (item) => item.currentNode === edge.currentNode && item.nextNode === edge.nextNode
+  );
+  if (!comment || comment.flowName !== edge.flowName || !declares) {
+    return 'not-found';
+  }
+  if (comment.edges.length > 1) {
+    return 'shared';
+  }
+
+  sourceLines.splice(from.line - 1, 1);
+  const targetLines = sameFile ? sourceLines : targetContent.split(/\r?\n/);
+  // The removed line shifts everything below it up by one
+  const line = sameFile && to.line > from.line ? to.line - 1 : to.line;
+  const idx = Math.min(Math.max(line - 1, 0), targetLines.length);
+  const indent = /^\s*/.exec(targetLines[idx] ?? '')?.[0] ?? '';
+  targetLines.splice(idx, 0, `${indent}${commentText.trim()}`);
+
+  if (!sameFile) {
+    await fs.promises.writeFile(sourcePath, sourceLines.join('\n'), 'utf8');
+  }
+  await fs.promises.writeFile(targetPath, targetLines.join('\n'), 'utf8');
+  return 'moved';
+}
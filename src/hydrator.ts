@@ -1,20 +1,33 @@
 import { RemapEngine } from './remapper';
 import { FlowRecord, HydratedFlow } from './types';
 
+/**
+ * Runs the remap pipeline for DB flows and keeps the latest working-tree
+ * result per flow, so resolutions can be applied after the user has reviewed
+ * them. Results for another git ref are only for viewing and are not kept.
+ */
 export class FlowHydrator {
-  private readonly engine: RemapEngine;
+  private readonly results = new Map<string, HydratedFlow>();
 
-  constructor(private readonly workspacePath: string) {
-    this.engine = new RemapEngine(workspacePath);
+  constructor(private readonly engine: RemapEngine) {}
+
+  dispose() {
+    this.clear();
+  }
+
+  clear() {
+    this.results.clear();
   }
 
-  // No-op dispose/clear because we removed editor decorations per spec.
-  dispose() {}
-  clear() {}
+  async hydrate(flow: FlowRecord, ref?: string): Promise<HydratedFlow> {
+    const result = await this.engine.remapFlow(flow, ref);
+    if (!ref) {
+      this.results.set(flow.name, result);
+    }
+    return result;
+  }
 
-  async hydrate(flow: FlowRecord): Promise<HydratedFlow> {
-    // Hydration now only computes remap results and returns them;
-    // it does not apply any VS Code decorations.
-    return this.engine.remapFlow(flow);
+  getResult(flowName: string): HydratedFlow | undefined {
+    return this.results.get(flowName);
   }
 }
@@ -0,0 +1,103 @@
+import { FlowDatabase } from './types';
+
+/** A DB as read from disk: any schema version, possibly with fields missing. */
+export type RawDatabase = Record<string, unknown>;
+
+type RawRecord = Record<string, unknown>;
+
+/**
+ * One step of the schema chain. Steps are pure: they get the DB at `from`
+ * and return it at `to`, without touching the file. Every step has a
+ * before/after fixture pair in src/test/fixtures/migrations.
+ */
+export interface Migration {
+  from: number;
+  to: number;
+  description: string;
+  apply: (db: RawDatabase) => RawDatabase;
+}
+
+function records(value: unknown): RawRecord[] {
+  return Array.isArray(value) ? (value as RawRecord[]) : [];
+}
+
+// Annotations of a flow declared cross-file carried that declaration before it was stored per edge
+function backfillAnnotation(annotation: RawRecord, flow: RawRecord): RawRecord {
+  return {
+    isoLine: annotation.line,
+    column: 0,
+    contextBefore: [],
+    contextLine: '',
+    contextAfter: [],
+    symbolPath: null,
+    nodeType: null,
+    astAnchor: null,
+    crossDeclared: flow.declaredCross === true,
+    note: '',
+    meta: {},
+    ...annotation,
+  };
+}
+
+function backfillFlow(flow: RawRecord): RawRecord {
+  return {
+    tags: [],
+    nodeDescriptions: {},
+    startNodes: [],
+    endNodes: [],
+    declaredCross: false,
+    ...flow,
+    isCross: flow.isCross ?? flow.declaredCross ?? false,
+    annotations: records(flow.annotations).map((annotation) =>
+      backfillAnnotation(annotation, flow)
+    ),
+  };
+}
+
+export const MIGRATIONS: Migration[] = [
+  {
+    from: 0,
+    to: 1,
+    description: 'Stamp the schema version on DBs written before it was recorded',
+    apply: (db) => ({ ...db, schemaVersion: 1 }),
+  },
+  {
+    from: 1,
+    to: 2,
+    description:
+      'Backfill annotation and flow fields added since schema 1 (structural anchors, ' +
+      'symbol info, node markers) so every record is fully populated',
+    apply: (db) => {
+      const flows = (db.flows ?? {}) as Record<string, RawRecord>;
+      return {
+        ...db,
+        schemaVersion: 2,
+        flows: Object.fromEntries(
+          Object.entries(flows).map(([id, flow]) => [id, backfillFlow(flow)])
+        ),
+      };
+    },
+  },
+];
+
+export const CURRENT_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].to;
+
+/** DBs from before schema versions were recorded count as version 0. */
+export function schemaVersionOf(db: RawDatabase): number {
+  return typeof db.schemaVersion === 'number' ? db.schemaVersion : 0;
+}
+
+/** Run every step from the DB's version up to the current one. */
+export function migrateDatabase(db: RawDatabase): FlowDatabase {
+  let result = db;
+  let version = schemaVersionOf(db);
+  while (version < CURRENT_SCHEMA_VERSION) {
+    const step = MIGRATIONS.find((migration) => migration.from === version);
+    if (!step) {
+      throw new Error(`No flow DB migration from schema version ${version}.`);
+    }
+    result = step.apply(result);
+    version = step.to;
+  }
+  return result as unknown as FlowDatabase;
+}
@@ -0,0 +1,65 @@
+/**
+ * Text normalization for remap comparisons, applied to both the stored
+ * context and the current file so formatter-only changes (reindenting,
+ * spacing, trailing commas and semicolons, quote style, blank lines) do not
+ * count as edits. Flow comment lines are dropped altogether: the comments
+ * around an annotation come and go as flows are edited.
+ */
+
+export interface NormalizedLine {
+  line: number; // 1-based line in the file
+  text: string;
+}
+
+/** Same test the hydrate writer uses. */
+export function isFlowCommentLine(line: string, tag: string): boolean {
+  return line.includes(tag);
+}
+
+const PUNCTUATION = /[()[\]{}<>,;:=+\-*/%!?&|.]/;
+// Written without a space these form a different operator: `a - -b` is not `a --b`
+const OPERATOR = /[<>:=+\-*/%!?&|.]/;
+
+/**
+ * A space next to punctuation is formatting, unless dropping it would merge
+ * two tokens: two identifiers/numbers (never touched) or two operators.
+ */
+function isFormattingSpace(before: string, after: string): boolean {
+  return (
+    (PUNCTUATION.test(before) || PUNCTUATION.test(after)) &&
+    !(OPERATOR.test(before) && OPERATOR.test(after))
+  );
+}
+
+export function normalizeLine(line: string): string {
+  return line
+    .replace(/'/g, '"')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/(.) (?=(.))/g, (space, before: string, after: string) =>
+      isFormattingSpace(before, after) ? before : space
+    )
+    .replace(/,(?=[)\]}])/g, '')
+    .replace(/[,;]+$/, '');
+}
+
+/** Normalized code lines, skipping flow comments and blank lines. */
+export function normalizeLines(lines: string[], tag: string, firstLine = 1): NormalizedLine[] {
+  const result: NormalizedLine[] = [];
+  lines.forEach((line, i) => {
+    if (isFlowCommentLine(line, tag)) {
+      return;
+    }
+    const text = normalizeLine(line);
+    if (text) {
+      result.push({ line: firstLine + i, text });
+    }
+  });
+  return result;
+}
+
+export function normalizedText(lines: string[], tag: string): string {
+  return normalizeLines(lines, tag)
+    .map((entry) => entry.text)
+    .join('\n');
+}
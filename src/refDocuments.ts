@@ -0,0 +1,26 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { getFileAtCommit } from './git';
+
+/**
+ * Read-only documents showing a workspace file as it is at a git ref, so
+ * results remapped onto a branch can be opened without checking it out.
+ * URIs are the file's path with the ref as query: `flowrider-ref:/abs/path?ref`.
+ */
+export class RefDocumentProvider implements vscode.TextDocumentContentProvider {
+  public static readonly scheme = 'flowrider-ref';
+
+  static uriFor(fsPath: string, ref: string): vscode.Uri {
+    return vscode.Uri.file(fsPath).with({ scheme: RefDocumentProvider.scheme, query: ref });
+  }
+
+  async provideTextDocumentContent(uri: vscode.Uri): Promise<string> {
+    const folder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(uri.fsPath));
+    if (!folder) {
+      return '';
+    }
+    const relativePath = path.relative(folder.uri.fsPath, uri.fsPath).split(path.sep).join('/');
+    const content = await getFileAtCommit(folder.uri.fsPath, uri.query, relativePath);
+    return content ?? `${relativePath} does not exist at ${uri.query}.`;
+  }
+}
@@ -2,15 +2,32 @@ import * as fs from 'fs';
 import * as path from 'path';
 import { diffLines } from 'diff';
 import { compareTwoStrings } from 'string-similarity';
-import { buildSymbolIndex, findSymbolRange } from './ast';
-import { getFileAtCommit } from './git';
+import { findSymbolRange, inferAstAnchor, symbolIndexCache } from './ast';
+import { AnchorTree, MIN_DISTINCTIVE_TOKENS, findAnchorMatches } from './astAnchor';
+import { getFlowTag, getMatchThresholds } from './config';
+import {
+  findRenamedPath,
+  getFileAtCommit,
+  getFileCommits,
+  getFileDiff,
+  grepFiles,
+} from './git';
+import { NormalizedLine, normalizeLine, normalizeLines, normalizedText } from './normalize';
+import { ScanFilter } from './scanFilter';
 import {
   Annotation,
+  AnnotationTrace,
+  AnnotationTraceStep,
+  CandidateSearch,
+  CommitInfo,
   FlowRecord,
   HydratedAnnotation,
   HydratedFlow,
   LineMapEntry,
   MatchCandidate,
+  MatchExplanation,
+  MatchStageReport,
+  MatchThresholds,
   ResolutionStatus,
   SymbolIndex,
 } from './types';
@@ -18,23 +35,51 @@ import {
 type LineMap = Map<number, LineMapEntry>;
 
 interface FileContext {
+  filePath: string; // where the file is now, relative; differs from the annotation's after a rename
   oldContent?: string;
   newContent?: string;
   newLines?: string[];
+  view?: NormalizedLine[]; // newLines prepared for comparison
+  tag: string;
+  thresholds: MatchThresholds;
   lineMap?: LineMap;
   symbolIndex?: SymbolIndex;
+  anchorTree?: AnchorTree;
 }
 
 interface SearchRegion {
   lines: string[];
   startLine: number; // 1-based line number of lines[0] in the file
+  view: NormalizedLine[]; // the region's code lines, normalized (see normalize.ts)
   symbol?: string;
 }
 
-const STRICT_THRESHOLD = 0.9;
-const CANDIDATE_THRESHOLD = 0.7;
-const FUZZY_MIN_THRESHOLD = 0.6;
+/**
+ * Where annotations are remapped to: the working tree, or a git ref read with
+ * `git show` so nothing has to be checked out.
+ */
+interface RemapTarget {
+  ref?: string;
+  read(relativePath: string): Promise<string | undefined>;
+  /** Files that may contain one of `probes`; callers still check the content. */
+  filesContaining(probes: string[]): Promise<string[]>;
+}
+
+/** An annotation's stored context, prepared the same way as the file it is searched in. */
+interface PreparedSnippet {
+  before: string[]; // normalized code lines above the comment
+  after: string[]; // normalized code lines below it
+  text: string; // before and after joined: what similarity scores compare
+  contextLine: string; // the comment line itself, normalized
+}
+
+type MatchStage = MatchStageReport['stage'];
+
 const MAX_CANDIDATES = 5;
+// Order in which remapAnnotation runs its stages
+const PIPELINE: MatchStage[] = ['diff', 'exact-snippet', 'ast', 'context-line', 'fuzzy-window'];
+// Context lines shorter than this (`}`, `return;`) are too common to pick files by
+const MIN_PROBE_LENGTH = 8;
 
 function safeSimilarity(a: string, b: string): number {
   if (!a.trim() && !b.trim()) {
@@ -43,10 +88,33 @@ function safeSimilarity(a: string, b: string): number {
   return compareTwoStrings(a, b);
 }
 
+/** Context lines distinctive enough to look for verbatim in other files. */
+function probesFor(before: string[], line: string, after: string[]): string[] {
+  return [line, ...before, ...after]
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.length >= MIN_PROBE_LENGTH);
+}
+
 function buildSnippet(before: string[], line: string, after: string[]): string {
   return [...before, line, ...after].join('\n');
 }
 
+function prepareSnippet(
+  before: string[],
+  line: string,
+  after: string[],
+  tag: string
+): PreparedSnippet {
+  const normalizedBefore = normalizeLines(before, tag).map((entry) => entry.text);
+  const normalizedAfter = normalizeLines([line, ...after], tag).map((entry) => entry.text);
+  return {
+    before: normalizedBefore,
+    after: normalizedAfter,
+    text: [...normalizedBefore, ...normalizedAfter].join('\n'),
+    contextLine: normalizeLine(line),
+  };
+}
+
 function snippetAt(
   lines: string[],
   lineNumber: number,
@@ -60,7 +128,7 @@ function snippetAt(
 }
 
 function buildLineMap(oldContent: string, newContent: string): LineMap {
-  const diff = diffLines(oldContent, newContent);
+  const diff = diffLines(oldContent, newContent, { ignoreWhitespace: true });
   const map: LineMap = new Map();
   let oldLine = 1;
   let newLine = 1;
@@ -94,54 +162,135 @@ function buildLineMap(oldContent: string, newContent: string): LineMap {
 }
 
 function dedupeCandidates(candidates: MatchCandidate[]): MatchCandidate[] {
-  const bestByLine = new Map<number, MatchCandidate>();
+  const bestByLine = new Map<string, MatchCandidate>();
   for (const candidate of candidates) {
-    const existing = bestByLine.get(candidate.line);
+    const key = `${candidate.filePath ?? ''}:${candidate.line}`;
+    const existing = bestByLine.get(key);
     if (!existing || candidate.score > existing.score) {
-      bestByLine.set(candidate.line, candidate);
+      bestByLine.set(key, candidate);
     }
   }
   return Array.from(bestByLine.values()).sort((a, b) => b.score - a.score);
 }
 
+const percent = (value: number) => `${(value * 100).toFixed(0)}%`;
+
+function stageReport(stage: MatchStage, found: MatchCandidate[], note?: string): MatchStageReport {
+  return {
+    stage,
+    ran: true,
+    matches: found.length,
+    bestScore: found.length > 0 ? Math.max(...found.map((candidate) => candidate.score)) : undefined,
+    note,
+  };
+}
+
+/** Reports for the pipeline stages an early decision made unnecessary. */
+function notReached(stages: MatchStageReport[], note?: string): MatchStageReport[] {
+  const reached = new Set(stages.map((report) => report.stage));
+  return PIPELINE.filter((stage) => !reached.has(stage)).map((stage) => ({
+    stage,
+    ran: false,
+    matches: 0,
+    note,
+  }));
+}
+
+/** A candidate without its snippet: explanations only need where and how well. */
+function summarize({ line, score, source, symbol, filePath }: MatchCandidate): MatchCandidate {
+  return { line, score, source, symbol, filePath };
+}
+
+function describeCandidate(candidate: MatchCandidate): string {
+  const where = candidate.filePath ? `${candidate.filePath}:${candidate.line}` : `line ${candidate.line}`;
+  return `${candidate.source} at ${where} (${percent(candidate.score)})`;
+}
+
+/** Why the best of `ranked` (sorted, best first) came out on top, and what its score means. */
+function rankingDecision(ranked: MatchCandidate[], thresholds: MatchThresholds): string {
+  const [winner, runnerUp] = ranked;
+  if (!winner) {
+    return 'No stage found a match.';
+  }
+
+  let comparison: string;
+  if (!runnerUp) {
+    comparison = `${describeCandidate(winner)} is the only match`;
+  } else if (winner.score > runnerUp.score) {
+    const margin = ((winner.score - runnerUp.score) * 100).toFixed(0);
+    comparison = `${describeCandidate(winner)} beat ${describeCandidate(runnerUp)} by ${margin} points`;
+  } else {
+    comparison =
+      `${describeCandidate(winner)} tied with ${describeCandidate(runnerUp)}; ` +
+      'ties go to the earlier stage';
+  }
+
+  if (winner.score >= thresholds.strict) {
+    return `${comparison}, at or above the strict threshold (${percent(thresholds.strict)}).`;
+  }
+  if (winner.score >= thresholds.candidate) {
+    return (
+      `${comparison}, between the candidate (${percent(thresholds.candidate)}) and ` +
+      `strict (${percent(thresholds.strict)}) thresholds.`
+    );
+  }
+  return `${comparison}, below the candidate threshold (${percent(thresholds.candidate)}).`;
+}
+
 function regionFor(
   newLines: string[],
+  view: NormalizedLine[],
   symbolPath: string | undefined | null,
   index: SymbolIndex | undefined
 ): SearchRegion {
   const range = findSymbolRange(symbolPath, index);
   if (!range) {
-    return { lines: newLines, startLine: 1, symbol: undefined };
+    return { lines: newLines, startLine: 1, view, symbol: undefined };
   }
   const start = Math.max(0, range.startLine - 1);
   const end = Math.min(newLines.length, range.endLine);
-  return { lines: newLines.slice(start, end), startLine: range.startLine, symbol: range.path };
+  return {
+    lines: newLines.slice(start, end),
+    startLine: range.startLine,
+    view: view.filter((entry) => entry.line >= range.startLine && entry.line <= range.endLine),
+    symbol: range.path,
+  };
 }
 
-function exactSnippetSearch(
-  snippetLines: string[],
-  region: SearchRegion
-): MatchCandidate[] {
+/** Original text of view[start..start+size), blank lines and flow comments included. */
+function rawWindow(region: SearchRegion, start: number, size: number): string {
+  const first = region.view[start].line - region.startLine;
+  const last = region.view[Math.min(region.view.length, start + size) - 1].line - region.startLine;
+  return region.lines.slice(first, last + 1).join('\n');
+}
+
+/** Where the comment belongs for a match starting at view[start]: right below its context before. */
+function commentLineAt(region: SearchRegion, start: number, before: number): number {
+  return before > 0 ? region.view[start + before - 1].line + 1 : region.view[start].line;
+}
+
+function exactSnippetSearch(snippet: PreparedSnippet, region: SearchRegion): MatchCandidate[] {
+  const snippetLines = [...snippet.before, ...snippet.after];
   if (snippetLines.length === 0) {
     return [];
   }
 
   const matches: MatchCandidate[] = [];
 
-  for (let i = 0; i <= region.lines.length - snippetLines.length; i += 1) {
+  for (let i = 0; i <= region.view.length - snippetLines.length; i += 1) {
     let allMatch = true;
     for (let j = 0; j < snippetLines.length; j += 1) {
-      if (region.lines[i + j] !== snippetLines[j]) {
+      if (region.view[i + j].text !== snippetLines[j]) {
         allMatch = false;
         break;
       }
     }
     if (allMatch) {
       matches.push({
-        line: region.startLine + i,
+        line: commentLineAt(region, i, snippet.before.length),
         score: 1,
         source: 'exact-snippet',
-        snippet: snippetLines.join('\n'),
+        snippet: rawWindow(region, i, snippetLines.length),
         symbol: region.symbol,
       });
     }
@@ -150,30 +299,30 @@ function exactSnippetSearch(
   return matches;
 }
 
-function contextLineSearch(
-  contextLine: string,
-  snippet: string,
-  snippetLines: string[],
-  region: SearchRegion
-): MatchCandidate[] {
+function contextLineSearch(snippet: PreparedSnippet, region: SearchRegion): MatchCandidate[] {
   const matches: MatchCandidate[] = [];
-  if (!contextLine.trim()) {
+  if (!snippet.contextLine) {
     return matches;
   }
 
+  const windowSize = snippet.before.length + snippet.after.length;
   for (let i = 0; i < region.lines.length; i += 1) {
-    if (region.lines[i] !== contextLine) {
+    if (normalizeLine(region.lines[i]) !== snippet.contextLine) {
       continue;
     }
-    const windowStart = Math.max(0, i - Math.floor(snippetLines.length / 2));
-    const windowEnd = Math.min(region.lines.length, windowStart + snippetLines.length);
-    const window = region.lines.slice(windowStart, windowEnd);
-    const score = safeSimilarity(snippet, window.join('\n'));
+    const line = region.startLine + i;
+    const below = region.view.findIndex((entry) => entry.line > line);
+    const windowStart = Math.max(
+      0,
+      (below < 0 ? region.view.length : below) - snippet.before.length
+    );
+    const window = region.view.slice(windowStart, windowStart + windowSize);
+    const score = safeSimilarity(snippet.text, window.map((entry) => entry.text).join('\n'));
     matches.push({
-      line: region.startLine + i,
+      line,
       score,
       source: 'context-line',
-      snippet: window.join('\n'),
+      snippet: window.length > 0 ? rawWindow(region, windowStart, windowSize) : region.lines[i],
       symbol: region.symbol,
     });
   }
@@ -182,25 +331,25 @@ function contextLineSearch(
 }
 
 function fuzzyWindowSearch(
-  snippet: string,
-  snippetLines: string[],
-  region: SearchRegion
+  snippet: PreparedSnippet,
+  region: SearchRegion,
+  minScore: number
 ): MatchCandidate[] {
   const matches: MatchCandidate[] = [];
-  if (snippetLines.length === 0) {
+  const windowSize = snippet.before.length + snippet.after.length;
+  if (windowSize === 0) {
     return matches;
   }
 
-  const windowSize = snippetLines.length;
-  for (let i = 0; i <= region.lines.length - windowSize; i += 1) {
-    const window = region.lines.slice(i, i + windowSize);
-    const score = safeSimilarity(snippet, window.join('\n'));
-    if (score >= FUZZY_MIN_THRESHOLD) {
+  for (let i = 0; i <= region.view.length - windowSize; i += 1) {
+    const window = region.view.slice(i, i + windowSize);
+    const score = safeSimilarity(snippet.text, window.map((entry) => entry.text).join('\n'));
+    if (score >= minScore) {
       matches.push({
-        line: region.startLine + i,
+        line: commentLineAt(region, i, snippet.before.length),
         score,
         source: 'fuzzy-window',
-        snippet: window.join('\n'),
+        snippet: rawWindow(region, i, windowSize),
         symbol: region.symbol,
       });
     }
@@ -209,18 +358,65 @@ function fuzzyWindowSearch(
   return matches;
 }
 
+/**
+ * Structural search: nodes of the anchor's kind whose token fingerprint is
+ * unchanged, so reformatting and renamed identifiers do not matter. The
+ * comment is placed the same distance above the node as when exported.
+ * A match can only reach the strict threshold when the node also sits in the
+ * same kind of parent or at the same position, and, for short generic
+ * fingerprints, when the surrounding text still looks like the snippet.
+ */
+function astAnchorSearch(
+  annotation: Annotation,
+  ctx: FileContext,
+  region: SearchRegion,
+  snippet: PreparedSnippet
+): { candidates: MatchCandidate[]; weak: number } {
+  const anchor = annotation.astAnchor;
+  if (!anchor || !ctx.anchorTree || !ctx.newLines) {
+    return { candidates: [], weak: 0 };
+  }
+  const newLines = ctx.newLines;
+  const regionEnd = region.startLine + region.lines.length - 1;
+  let weak = 0;
+
+  const candidates = findAnchorMatches(ctx.anchorTree, anchor)
+    .map((match) => {
+      const line = Math.max(1, match.startLine - anchor.lineOffset);
+      const text = snippetAt(
+        newLines,
+        line,
+        annotation.contextBefore.length,
+        annotation.contextAfter.length
+      );
+      const distinctive =
+        match.tokenCount >= MIN_DISTINCTIVE_TOKENS ||
+        safeSimilarity(snippet.text, normalizedText(text.split('\n'), ctx.tag)) >=
+          ctx.thresholds.candidate;
+      let score = match.score;
+      if (score >= ctx.thresholds.strict && !(match.placed && distinctive)) {
+        score = ctx.thresholds.strict - 0.01;
+        weak += 1;
+      }
+      return { line, score, source: 'ast' as const, snippet: text, symbol: region.symbol };
+    })
+    .filter((candidate) => candidate.line >= region.startLine && candidate.line <= regionEnd);
+  return { candidates, weak };
+}
+
 function tryDiffMapping(
   annotation: Annotation,
   ctx: FileContext,
-  oldSnippet: string
-): { resolution?: ResolutionStatus; candidate?: MatchCandidate } {
+  snippet: PreparedSnippet
+): { resolution?: ResolutionStatus; candidate?: MatchCandidate; note?: string } {
   if (!ctx.lineMap || !ctx.newLines) {
     return {};
   }
   const mapEntry = ctx.lineMap.get(annotation.line);
   if (!mapEntry || mapEntry.status !== 'mapped' || !mapEntry.newLine) {
-    return {};
+    return { note: `line ${annotation.line} was changed or deleted since the export` };
   }
+  const note = `line ${annotation.line} maps to line ${mapEntry.newLine}`;
 
   const newSnippet = snippetAt(
     ctx.newLines,
@@ -228,15 +424,17 @@ function tryDiffMapping(
     annotation.contextBefore.length,
     annotation.contextAfter.length
   );
-  const score = safeSimilarity(oldSnippet, newSnippet);
+  const score = safeSimilarity(snippet.text, normalizedText(newSnippet.split('\n'), ctx.tag));
 
-  if (score >= STRICT_THRESHOLD) {
+  if (score >= ctx.thresholds.strict) {
     return {
       resolution: { kind: 'auto', line: mapEntry.newLine, confidence: score, source: 'diff' },
+      note,
     };
   }
 
   return {
+    note,
     candidate: {
       line: mapEntry.newLine,
       score,
@@ -247,100 +445,552 @@ function tryDiffMapping(
   };
 }
 
+function buildFileContext(
+  filePath: string,
+  absPath: string,
+  oldContent: string | undefined,
+  newContent: string | undefined
+): FileContext {
+  const tag = getFlowTag();
+  const newLines = newContent?.split(/\r?\n/);
+  const view = newLines ? normalizeLines(newLines, tag) : undefined;
+  const lineMap =
+    oldContent && newContent ? buildLineMap(oldContent, newContent) : undefined;
+  const symbolIndex =
+    newContent && newLines ? symbolIndexCache.get(absPath, newContent) : undefined;
+  const anchorTree = newContent ? symbolIndexCache.getAnchorTree(absPath, newContent) : undefined;
+
+  return {
+    filePath,
+    oldContent,
+    newContent,
+    newLines,
+    view,
+    tag,
+    thresholds: getMatchThresholds(),
+    lineMap,
+    symbolIndex,
+    anchorTree,
+  };
+}
+
+/** The hunk of a unified diff whose old side covers `oldLine`, or the one closest to it. */
+function hunkAround(diffText: string, oldLine: number): string | undefined {
+  const hunks = diffText.split(/\n(?=@@ )/).filter((hunk) => hunk.startsWith('@@ '));
+  let closest: { hunk: string; distance: number } | undefined;
+  for (const hunk of hunks) {
+    const header = /^@@ -(\d+)(?:,(\d+))?/.exec(hunk);
+    if (!header) {
+      continue;
+    }
+    const start = Number(header[1]);
+    const end = start + Math.max(Number(header[2] ?? '1'), 1) - 1;
+    const distance = oldLine < start ? start - oldLine : oldLine > end ? oldLine - end : 0;
+    if (!closest || distance < closest.distance) {
+      closest = { hunk, distance };
+    }
+  }
+  return closest?.hunk;
+}
+
+/** Carry an annotation over to a newer version of its file at `line`. */
+function advanceAnnotation(
+  annotation: Annotation,
+  absPath: string,
+  content: string,
+  lines: string[],
+  line: number,
+  commitHash: string
+): Annotation {
+  const idx = line - 1;
+  return {
+    ...annotation,
+    commitHash,
+    line,
+    contextBefore: lines.slice(Math.max(0, idx - annotation.contextBefore.length), idx),
+    contextLine: lines[idx] ?? '',
+    contextAfter: lines.slice(idx + 1, idx + 1 + annotation.contextAfter.length),
+    astAnchor: inferAstAnchor(absPath, content, line) ?? annotation.astAnchor,
+  };
+}
+
+/** Point a resolution computed against a renamed file at that file. */
+function withFilePath(resolution: ResolutionStatus, filePath: string): ResolutionStatus {
+  if (resolution.kind === 'auto') {
+    return { ...resolution, filePath };
+  }
+  if (resolution.kind === 'candidates') {
+    return {
+      ...resolution,
+      candidates: resolution.candidates.map((candidate) => ({ ...candidate, filePath })),
+    };
+  }
+  return resolution;
+}
+
 function remapAnnotation(annotation: Annotation, ctx: FileContext): ResolutionStatus {
-  if (!ctx.newContent || !ctx.newLines) {
-    return { kind: 'unmapped', reason: 'file-missing' };
+  const { thresholds } = ctx;
+  const requestedSymbol = annotation.symbolPath ?? undefined;
+  if (!ctx.newContent || !ctx.newLines || !ctx.view) {
+    return {
+      kind: 'unmapped',
+      reason: 'file-missing',
+      explanation: {
+        stages: notReached([]),
+        requestedSymbol,
+        thresholds,
+        decision: `${annotation.filePath} no longer exists, so there was nothing to search.`,
+      },
+    };
   }
   if (!ctx.oldContent || !ctx.lineMap) {
-    return { kind: 'unmapped', reason: 'git-missing' };
+    return {
+      kind: 'unmapped',
+      reason: 'git-missing',
+      explanation: {
+        stages: notReached([]),
+        requestedSymbol,
+        thresholds,
+        decision:
+          `Commit ${annotation.commitHash.slice(0, 7)} is not in git history, ` +
+          'so the file as exported is unknown.',
+      },
+    };
   }
 
-  const oldSnippet = buildSnippet(
+  const snippet = prepareSnippet(
     annotation.contextBefore,
     annotation.contextLine,
-    annotation.contextAfter
+    annotation.contextAfter,
+    ctx.tag
   );
-  const snippetLines = oldSnippet.split(/\r?\n/);
-  const region = regionFor(ctx.newLines, annotation.symbolPath, ctx.symbolIndex);
+  const region = regionFor(ctx.newLines, ctx.view, annotation.symbolPath, ctx.symbolIndex);
+  const stages: MatchStageReport[] = [];
+  const explain = (ranked: MatchCandidate[], decision: string): MatchExplanation => ({
+    stages: [...stages, ...notReached(stages, 'not needed')],
+    requestedSymbol,
+    scopedTo: region.symbol,
+    thresholds,
+    winner: ranked[0] && summarize(ranked[0]),
+    runnerUp: ranked[1] && summarize(ranked[1]),
+    decision,
+  });
 
-  const diffOutcome = tryDiffMapping(annotation, ctx, oldSnippet);
-  if (diffOutcome.resolution) {
-    return diffOutcome.resolution;
+  const diffOutcome = tryDiffMapping(annotation, ctx, snippet);
+  const { resolution: diffResolution } = diffOutcome;
+  if (diffResolution?.kind === 'auto') {
+    const winner: MatchCandidate = {
+      line: diffResolution.line,
+      score: diffResolution.confidence,
+      source: 'diff',
+    };
+    stages.push(stageReport('diff', [winner], diffOutcome.note));
+    return {
+      ...diffResolution,
+      explanation: explain(
+        [winner],
+        `The diff against the exported commit ${diffOutcome.note} and the context there ` +
+          `scores ${percent(winner.score)}, at or above the strict threshold ` +
+          `(${percent(thresholds.strict)}); no search was needed.`
+      ),
+    };
   }
 
   const candidates: MatchCandidate[] = [];
   if (diffOutcome.candidate) {
     candidates.push(diffOutcome.candidate);
   }
+  stages.push(
+    stageReport('diff', diffOutcome.candidate ? [diffOutcome.candidate] : [], diffOutcome.note)
+  );
+
+  const exact = exactSnippetSearch(snippet, region);
+  candidates.push(...exact);
+  stages.push(stageReport('exact-snippet', exact));
+
+  // A single structural match settles it before any fuzzy text matching;
+  // several equally good ones are only offered as candidates
+  const { candidates: structural, weak } = astAnchorSearch(annotation, ctx, region, snippet);
+  const strictStructural = structural.filter((candidate) => candidate.score >= thresholds.strict);
+  const anchorNote = !annotation.astAnchor
+    ? 'no structural anchor stored'
+    : !ctx.anchorTree
+      ? 'no parser for this language'
+      : strictStructural.length > 1
+        ? `${strictStructural.length} equally strong nodes; scores capped below strict`
+        : weak > 0
+          ? `${weak} node(s) matched on shape alone, without position or text; capped below strict`
+          : undefined;
+  stages.push({
+    ...stageReport('ast', structural, anchorNote),
+    ran: !!annotation.astAnchor && !!ctx.anchorTree,
+  });
+  if (exact.length === 0 && strictStructural.length === 1) {
+    const [match] = strictStructural;
+    return {
+      kind: 'auto',
+      line: match.line,
+      confidence: match.score,
+      source: 'ast',
+      explanation: explain(
+        [match],
+        'No exact snippet match, and exactly one syntax node matches the stored structural ' +
+          `anchor (${percent(match.score)}); the text searches were not needed.`
+      ),
+    };
+  }
+  for (const candidate of structural) {
+    candidates.push(
+      strictStructural.length > 1
+        ? { ...candidate, score: Math.min(candidate.score, thresholds.strict - 0.01) }
+        : candidate
+    );
+  }
+
+  const byContextLine = contextLineSearch(snippet, region);
+  candidates.push(...byContextLine);
+  stages.push(stageReport('context-line', byContextLine));
 
-  candidates.push(...exactSnippetSearch(snippetLines, region));
-  candidates.push(...contextLineSearch(annotation.contextLine, oldSnippet, snippetLines, region));
-  candidates.push(...fuzzyWindowSearch(oldSnippet, snippetLines, region));
+  const fuzzy = fuzzyWindowSearch(snippet, region, thresholds.fuzzyMin);
+  candidates.push(...fuzzy);
+  stages.push(
+    stageReport('fuzzy-window', fuzzy, `windows below ${percent(thresholds.fuzzyMin)} dropped`)
+  );
 
   const deduped = dedupeCandidates(candidates).slice(0, MAX_CANDIDATES);
+  const explanation = explain(deduped, rankingDecision(deduped, thresholds));
 
   if (deduped.length === 0) {
-    return { kind: 'unmapped', reason: 'no-match' };
+    return { kind: 'unmapped', reason: 'no-match', explanation };
   }
 
   const best = deduped[0];
-  if (best.score >= STRICT_THRESHOLD) {
-    return { kind: 'auto', line: best.line, confidence: best.score, source: best.source };
+  if (best.score >= thresholds.strict) {
+    return {
+      kind: 'auto',
+      line: best.line,
+      confidence: best.score,
+      source: best.source,
+      explanation,
+    };
   }
 
-  if (best.score >= CANDIDATE_THRESHOLD) {
-    return { kind: 'candidates', candidates: deduped };
+  if (best.score >= thresholds.candidate) {
+    return { kind: 'candidates', candidates: deduped, explanation };
   }
 
-  return { kind: 'unmapped', reason: 'no-match' };
+  return { kind: 'unmapped', reason: 'no-match', explanation };
 }
 
 export class RemapEngine {
   constructor(private readonly workspacePath: string) {}
 
+  private targetFor(ref?: string): RemapTarget {
+    const workspacePath = this.workspacePath;
+    if (!ref) {
+      return {
+        read: (relativePath) =>
+          fs.promises.readFile(path.join(workspacePath, relativePath), 'utf8').catch(() => undefined),
+        filesContaining: (probes) => grepFiles(workspacePath, probes),
+      };
+    }
+    return {
+      ref,
+      read: (relativePath) => getFileAtCommit(workspacePath, ref, relativePath),
+      filesContaining: (probes) => grepFiles(workspacePath, probes, ref),
+    };
+  }
+
   private async loadFileContext(
     filePath: string,
-    commitHash: string
+    commitHash: string,
+    target: RemapTarget
   ): Promise<FileContext> {
-    const absPath = path.join(this.workspacePath, filePath);
+    let currentPath = filePath;
 
-    const [oldContent, newContent] = await Promise.all([
+    const [oldContent, existing] = await Promise.all([
       getFileAtCommit(this.workspacePath, commitHash, filePath),
-      fs.promises.readFile(absPath, 'utf8').catch(() => undefined),
+      target.read(filePath),
     ]);
 
-    const newLines = newContent?.split(/\r?\n/);
-    const lineMap =
-      oldContent && newContent ? buildLineMap(oldContent, newContent) : undefined;
-    const symbolIndex =
-      newContent && newLines ? buildSymbolIndex(absPath, newContent) : undefined;
+    let newContent = existing;
+    if (newContent === undefined) {
+      const renamed = await findRenamedPath(this.workspacePath, commitHash, filePath, target.ref);
+      const renamedContent = renamed ? await target.read(renamed) : undefined;
+      if (renamed && renamedContent !== undefined) {
+        currentPath = renamed;
+        newContent = renamedContent;
+      }
+    }
+
+    const absPath = path.join(this.workspacePath, currentPath);
+    return buildFileContext(currentPath, absPath, oldContent, newContent);
+  }
+
+  /**
+   * Last resort when an annotation's file is gone and git knows of no rename:
+   * look for its context in the other files of the folder. Only files that
+   * contain one of the context lines verbatim are searched in depth. Pass
+   * `files` to reuse a `filesContaining` lookup made for several annotations.
+   */
+  private async searchOtherFiles(
+    target: RemapTarget,
+    excludePath: string,
+    contextBefore: string[],
+    contextLine: string,
+    contextAfter: string[],
+    files?: Promise<string[]>
+  ): Promise<CandidateSearch> {
+    const thresholds = getMatchThresholds();
+    const probes = probesFor(contextBefore, contextLine, contextAfter);
+    if (probes.length === 0) {
+      return {
+        candidates: [],
+        explanation: {
+          stages: [
+            {
+              stage: 'other-files',
+              ran: false,
+              matches: 0,
+              note: `no context line of ${MIN_PROBE_LENGTH}+ characters to look for`,
+            },
+          ],
+          thresholds,
+          decision: `${excludePath} no longer exists and its context is too generic to find elsewhere.`,
+        },
+      };
+    }
+
+    const filter = ScanFilter.forFolder(this.workspacePath);
+    const tag = getFlowTag();
+    const snippet = prepareSnippet(contextBefore, contextLine, contextAfter, tag);
+    const candidates: MatchCandidate[] = [];
+    let searched = 0;
 
-    return { oldContent, newContent, newLines, lineMap, symbolIndex };
+    for (const relativePath of await (files ?? target.filesContaining(probes))) {
+      if (relativePath === excludePath || filter.isExcluded(relativePath)) {
+        continue;
+      }
+      const content = await target.read(relativePath);
+      if (!content || content.includes('\0') || !probes.some((probe) => content.includes(probe))) {
+        continue;
+      }
+
+      searched += 1;
+      const newLines = content.split(/\r?\n/);
+      const region: SearchRegion = {
+        lines: newLines,
+        startLine: 1,
+        view: normalizeLines(newLines, tag),
+      };
+      const found = [
+        ...exactSnippetSearch(snippet, region),
+        ...contextLineSearch(snippet, region),
+        ...fuzzyWindowSearch(snippet, region, thresholds.fuzzyMin),
+      ];
+      candidates.push(...found.map((candidate) => ({ ...candidate, filePath: relativePath })));
+    }
+
+    const ranked = dedupeCandidates(candidates).slice(0, MAX_CANDIDATES);
+    return {
+      candidates: ranked,
+      explanation: {
+        stages: [
+          stageReport(
+            'other-files',
+            candidates,
+            `${searched} file(s) contain a context line and were searched`
+          ),
+        ],
+        thresholds,
+        winner: ranked[0] && summarize(ranked[0]),
+        runnerUp: ranked[1] && summarize(ranked[1]),
+        decision: `${excludePath} no longer exists. ${rankingDecision(ranked, thresholds)}`,
+      },
+    };
   }
 
-  async remapFlow(flow: FlowRecord): Promise<HydratedFlow> {
+  /**
+   * Remap every annotation of a flow onto the working tree, or onto `ref`
+   * (branch, tag, hash) when given, without checking it out.
+   */
+  async remapFlow(flow: FlowRecord, ref?: string): Promise<HydratedFlow> {
+    const target = this.targetFor(ref);
     const results: HydratedAnnotation[] = [];
     const cache = new Map<string, FileContext>();
+    // Files that may hold the context of a missing file's annotations, looked
+    // up once per missing file for the whole run (the target is fixed)
+    const otherFiles = new Map<string, Promise<string[]>>();
+    const otherFilesFor = (filePath: string) => {
+      let files = otherFiles.get(filePath);
+      if (!files) {
+        const probes = flow.annotations
+          .filter((candidate) => candidate.filePath === filePath)
+          .flatMap((candidate) =>
+            probesFor(candidate.contextBefore, candidate.contextLine, candidate.contextAfter)
+          );
+        files = target.filesContaining(Array.from(new Set(probes)));
+        otherFiles.set(filePath, files);
+      }
+      return files;
+    };
 
     for (const annotation of flow.annotations) {
       const key = `${annotation.commitHash}::${annotation.filePath}`;
       let ctx = cache.get(key);
       if (!ctx) {
-        ctx = await this.loadFileContext(annotation.filePath, annotation.commitHash);
+        ctx = await this.loadFileContext(annotation.filePath, annotation.commitHash, target);
         cache.set(key, ctx);
       }
 
-      const resolution = remapAnnotation(annotation, ctx);
+      let resolution = remapAnnotation(annotation, ctx);
+      if (ctx.filePath !== annotation.filePath) {
+        resolution = withFilePath(resolution, ctx.filePath);
+      } else if (resolution.kind === 'unmapped' && resolution.reason === 'file-missing') {
+        // Moves git did not see as renames are offered for review, never applied automatically
+        const elsewhere = await this.searchOtherFiles(
+          target,
+          annotation.filePath,
+          annotation.contextBefore,
+          annotation.contextLine,
+          annotation.contextAfter,
+          otherFilesFor(annotation.filePath)
+        );
+        const candidates = elsewhere.candidates.filter(
+          (candidate) => candidate.score >= ctx.thresholds.candidate
+        );
+        resolution =
+          candidates.length > 0
+            ? { kind: 'candidates', candidates, explanation: elsewhere.explanation }
+            : { ...resolution, explanation: elsewhere.explanation };
+      }
       results.push({ annotation, resolution });
     }
 
-    return { flow, annotations: results };
+    return { flow, annotations: results, ref };
+  }
+
+  /**
+   * Replay an annotation through each commit that touched its file since it
+   * was exported, then through the working tree, remapping one version at a
+   * time. Stops at the first version where it no longer resolves
+   * automatically and reports that commit with its diff hunk. Renames are
+   * followed, so a moved file keeps being traced under its new path. Slower than
+   * `remapFlow`, so it runs on demand for a single annotation.
+   */
+  async traceAnnotation(annotation: Annotation): Promise<AnnotationTrace> {
+    const original = await getFileAtCommit(
+      this.workspacePath,
+      annotation.commitHash,
+      annotation.filePath
+    );
+    if (original === undefined) {
+      return {
+        annotation,
+        steps: [],
+        note: `${annotation.filePath} is not readable at ${annotation.commitHash.slice(0, 7)}`,
+      };
+    }
+
+    const commits = await getFileCommits(
+      this.workspacePath,
+      annotation.commitHash,
+      annotation.filePath
+    );
+    const workingTree: CommitInfo = { hash: '', author: '', date: '', subject: 'Working tree' };
+    const readVersion = (commit: CommitInfo, filePath: string) =>
+      commit.hash
+        ? getFileAtCommit(this.workspacePath, commit.hash, filePath)
+        : fs.promises
+            .readFile(path.join(this.workspacePath, filePath), 'utf8')
+            .catch(() => undefined);
+
+    const steps: AnnotationTraceStep[] = [];
+    const queue = [...commits, workingTree];
+    let current = annotation;
+    let previous = original;
+
+    while (queue.length > 0) {
+      const commit = queue.shift() as CommitInfo;
+      const previousPath = current.filePath;
+      let content = await readVersion(commit, current.filePath);
+      if (content === undefined) {
+        const renamed = await findRenamedPath(
+          this.workspacePath,
+          current.commitHash,
+          current.filePath,
+          commit.hash || undefined
+        );
+        const renamedContent = renamed ? await readVersion(commit, renamed) : undefined;
+        if (renamed && renamedContent !== undefined) {
+          current = { ...current, filePath: renamed };
+          content = renamedContent;
+          // Later commits are only listed under the new path
+          if (commit.hash) {
+            const later = await getFileCommits(this.workspacePath, commit.hash, renamed);
+            queue.splice(0, queue.length, ...later, workingTree);
+          }
+        }
+      }
+      const absPath = path.join(this.workspacePath, current.filePath);
+      const resolution = remapAnnotation(
+        current,
+        buildFileContext(current.filePath, absPath, previous, content)
+      );
+
+      if (resolution.kind !== 'auto' || content === undefined) {
+        const best = resolution.kind === 'candidates' ? resolution.candidates[0] : undefined;
+        const confidence = best?.score ?? 0;
+        steps.push({ commit, confidence, line: best?.line, source: best?.source });
+        const diff = await getFileDiff(
+          this.workspacePath,
+          current.commitHash,
+          commit.hash || undefined,
+          current.filePath,
+          previousPath !== current.filePath ? previousPath : undefined
+        );
+        return {
+          annotation,
+          steps,
+          breaking: {
+            commit,
+            confidence,
+            lastLine: current.line,
+            diffHunk: diff ? hunkAround(diff, current.line) : undefined,
+          },
+        };
+      }
+
+      steps.push({
+        commit,
+        confidence: resolution.confidence,
+        line: resolution.line,
+        source: resolution.source,
+      });
+      const lines = content.split(/\r?\n/);
+      current = advanceAnnotation(current, absPath, content, lines, resolution.line, commit.hash);
+      previous = content;
+    }
+
+    const last = steps[steps.length - 1];
+    return {
+      annotation,
+      steps,
+      candidate: {
+        filePath: current.filePath !== annotation.filePath ? current.filePath : undefined,
+        line: current.line,
+        score: last.confidence,
+        source: 'history',
+        snippet: buildSnippet(current.contextBefore, current.contextLine, current.contextAfter),
+        symbol: current.symbolPath ?? undefined,
+      },
+    };
   }
 
   /**
    * Find candidate positions for a missing edge using snippet-based search.
    * Unlike full remapping, this doesn't require git history - just searches
-   * for the context in the current file.
+   * for the context in the current file, or in other files if it is gone.
    */
   async findCandidatesForMissingEdge(
     filePath: string,
@@ -348,27 +998,54 @@ export class RemapEngine {
     contextLine: string,
     contextAfter: string[],
     symbolPath?: string | null
-  ): Promise<MatchCandidate[]> {
+  ): Promise<CandidateSearch> {
     const absPath = path.join(this.workspacePath, filePath);
     let newContent: string | undefined;
     try {
       newContent = await fs.promises.readFile(absPath, 'utf8');
     } catch {
-      return [];
+      return this.searchOtherFiles(
+        this.targetFor(),
+        filePath,
+        contextBefore,
+        contextLine,
+        contextAfter
+      );
     }
 
+    const tag = getFlowTag();
     const newLines = newContent.split(/\r?\n/);
-    const symbolIndex = buildSymbolIndex(absPath, newContent);
-    const region = regionFor(newLines, symbolPath, symbolIndex);
+    const symbolIndex = symbolIndexCache.get(absPath, newContent);
+    const region = regionFor(newLines, normalizeLines(newLines, tag), symbolPath, symbolIndex);
 
-    const snippet = buildSnippet(contextBefore, contextLine, contextAfter);
-    const snippetLines = snippet.split(/\r?\n/);
+    const snippet = prepareSnippet(contextBefore, contextLine, contextAfter, tag);
+    const thresholds = getMatchThresholds();
 
-    const candidates: MatchCandidate[] = [];
-    candidates.push(...exactSnippetSearch(snippetLines, region));
-    candidates.push(...contextLineSearch(contextLine, snippet, snippetLines, region));
-    candidates.push(...fuzzyWindowSearch(snippet, snippetLines, region));
+    const exact = exactSnippetSearch(snippet, region);
+    const byContextLine = contextLineSearch(snippet, region);
+    const fuzzy = fuzzyWindowSearch(snippet, region, thresholds.fuzzyMin);
+    const ranked = dedupeCandidates([...exact, ...byContextLine, ...fuzzy]).slice(
+      0,
+      MAX_CANDIDATES
+    );
 
-    return dedupeCandidates(candidates).slice(0, MAX_CANDIDATES);
+    return {
+      candidates: ranked,
+      explanation: {
+        stages: [
+          { stage: 'diff', ran: false, matches: 0, note: 'no git history used' },
+          stageReport('exact-snippet', exact),
+          { stage: 'ast', ran: false, matches: 0, note: 'no structural anchor available' },
+          stageReport('context-line', byContextLine),
+          stageReport('fuzzy-window', fuzzy, `windows below ${percent(thresholds.fuzzyMin)} dropped`),
+        ],
+        requestedSymbol: symbolPath ?? undefined,
+        scopedTo: region.symbol,
+        thresholds,
+        winner: ranked[0] && summarize(ranked[0]),
+        runnerUp: ranked[1] && summarize(ranked[1]),
+        decision: rankingDecision(ranked, thresholds),
+      },
+    };
   }
 }
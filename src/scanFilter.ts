@@ -0,0 +1,147 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import ignore = require('ignore');
+import { getDbPath, getExcludeGlobs, getIncludeGlobs } from './config';
+
+type Ignore = ReturnType<typeof ignore>;
+
+export const FLOWRIDER_IGNORE = '.flowriderignore';
+// The per-directory ignore files ripgrep reads, lowest precedence first
+export const IGNORE_FILES = ['.gitignore', '.ignore', '.rgignore'];
+// Repository-local excludes, read at the folder root like ripgrep does
+const GIT_INFO_EXCLUDE = '.git/info/exclude';
+
+function toPosix(value: string): string {
+  return value.split(path.sep).join('/');
+}
+
+/**
+ * Folder-relative location of the flow DB to keep out of scans. The DB's
+ * directory is excluded when it has one (backups live next to it); a DB at
+ * the folder root only excludes the file itself. Absolute paths outside the
+ * folder need no exclusion.
+ */
+function dbExclusion(folderPath: string, dbPath: string): string | undefined {
+  const absolute = path.isAbsolute(dbPath) ? dbPath : path.join(folderPath, dbPath);
+  const relative = toPosix(path.relative(folderPath, absolute));
+  if (!relative || relative.startsWith('..')) {
+    return undefined;
+  }
+  const dir = path.posix.dirname(relative);
+  return dir === '.' ? `/${relative}` : `/${dir}/`;
+}
+
+/**
+ * Decides which files in one workspace folder are scanned. Shared by both
+ * scanner backends and the incremental index so they agree on what counts:
+ * `.git` and the flow DB are always skipped, then `flowrider.exclude`, the
+ * ignore files ripgrep honours (`.gitignore`, `.ignore` and `.rgignore`,
+ * nested ones too, plus `.git/info/exclude`) and a root `.flowriderignore`
+ * apply, and when `flowrider.include` is set only matching files are kept.
+ * All patterns use gitignore syntax.
+ */
+export class ScanFilter {
+  private readonly excludes: Ignore;
+  private readonly includes?: Ignore;
+  private readonly ignoreFiles = new Map<string, Ignore | null>();
+
+  private constructor(
+    readonly folderPath: string,
+    readonly includeGlobs: string[],
+    readonly excludeGlobs: string[]
+  ) {
+    this.excludes = ignore().add(excludeGlobs);
+    this.includes = includeGlobs.length > 0 ? ignore().add(includeGlobs) : undefined;
+  }
+
+  static forFolder(folderPath: string): ScanFilter {
+    const excludes = ['/.git/', ...getExcludeGlobs()];
+    const db = dbExclusion(folderPath, getDbPath());
+    if (db) {
+      excludes.push(db);
+    }
+    return new ScanFilter(folderPath, getIncludeGlobs(), excludes);
+  }
+
+  /** Ripgrep arguments that reproduce this filter (rg reads the other ignore files itself). */
+  ripgrepArgs(): string[] {
+    const args = ['--no-require-git'];
+    for (const glob of this.includeGlobs) {
+      args.push('--glob', glob);
+    }
+    for (const glob of this.excludeGlobs) {
+      args.push('--glob', `!${glob}`);
+    }
+    if (fs.existsSync(path.join(this.folderPath, FLOWRIDER_IGNORE))) {
+      args.push('--ignore-file', FLOWRIDER_IGNORE);
+    }
+    return args;
+  }
+
+  private loadIgnoreFile(dirRelative: string): Ignore | null {
+    const cached = this.ignoreFiles.get(dirRelative);
+    if (cached !== undefined) {
+      return cached;
+    }
+    // Later files override earlier ones, matching ripgrep's precedence (it
+    // reads .flowriderignore via --ignore-file, which ranks below the rest)
+    const names =
+      dirRelative === '' ? [FLOWRIDER_IGNORE, GIT_INFO_EXCLUDE, ...IGNORE_FILES] : IGNORE_FILES;
+    let matcher: Ignore | null = null;
+    for (const name of names) {
+      try {
+        const content = fs.readFileSync(path.join(this.folderPath, dirRelative, name), 'utf8');
+        matcher = (matcher ?? ignore()).add(content);
+      } catch {
+        // no ignore file here
+      }
+    }
+    this.ignoreFiles.set(dirRelative, matcher);
+    return matcher;
+  }
+
+  private ignoredByRules(relative: string, isDirectory: boolean): boolean {
+    const target = isDirectory ? `${relative}/` : relative;
+    if (this.excludes.ignores(target)) {
+      return true;
+    }
+    // Each ignore file applies to paths relative to its own directory; the
+    // deepest one with a matching rule decides, so it can re-include a path
+    const segments = relative.split('/');
+    for (let depth = segments.length - 1; depth >= 0; depth -= 1) {
+      const dir = segments.slice(0, depth).join('/');
+      const matcher = this.loadIgnoreFile(dir);
+      const rest = segments.slice(depth).join('/');
+      const result = matcher?.test(isDirectory ? `${rest}/` : rest);
+      if (result?.ignored || result?.unignored) {
+        return result.ignored;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * True when a folder-relative path should not be scanned. Used by the walker
+   * per entry (so `checkAncestors` is off) and by the index for single files.
+   */
+  isExcluded(relativePath: string, isDirectory = false, checkAncestors = true): boolean {
+    const relative = toPosix(relativePath).replace(/^\.\//, '');
+    if (!relative || relative.startsWith('..')) {
+      return true;
+    }
+
+    if (checkAncestors) {
+      const segments = relative.split('/');
+      for (let i = 1; i < segments.length; i += 1) {
+        if (this.ignoredByRules(segments.slice(0, i).join('/'), true)) {
+          return true;
+        }
+      }
+    }
+
+    if (this.ignoredByRules(relative, isDirectory)) {
+      return true;
+    }
+    return !isDirectory && this.includes !== undefined && !this.includes.ignores(relative);
+  }
+}
@@ -0,0 +1,105 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { buildScanResult, getUnsavedText, scanFile, scanWorkspaceFiles } from './flowParser';
+import { ScanFilter } from './scanFilter';
+import { FileScanEntry, ScanResult } from './types';
+
+/**
+ * Per-file index of parsed/malformed flow comments. A full rebuild runs the
+ * search backend over every folder; saves only rescan the touched files and
+ * patch their entries.
+ */
+export class ScanIndex {
+  private readonly files = new Map<string, FileScanEntry>();
+
+  async rebuild(tag: string, contextLines: number): Promise<void> {
+    const entries = await scanWorkspaceFiles(tag, contextLines);
+    this.files.clear();
+    for (const entry of entries) {
+      this.files.set(entry.filePath, entry);
+    }
+  }
+
+  /** Rescan the given files. Returns true if any entry changed. */
+  async updateFiles(uris: vscode.Uri[], tag: string, contextLines: number): Promise<boolean> {
+    let changed = false;
+    const filters = new Map<string, ScanFilter>();
+
+    for (const uri of uris) {
+      const filePath = uri.fsPath;
+      const folder = vscode.workspace.getWorkspaceFolder(uri);
+      if (!folder) {
+        continue;
+      }
+      const folderPath = folder.uri.fsPath;
+      let filter = filters.get(folderPath);
+      if (!filter) {
+        filter = ScanFilter.forFolder(folderPath);
+        filters.set(folderPath, filter);
+      }
+      if (filter.isExcluded(path.relative(folderPath, filePath))) {
+        // Newly excluded (e.g. .gitignore edited): make sure it drops out of the index
+        changed = this.files.delete(filePath) || changed;
+        continue;
+      }
+
+      // Unchanged on disk since we last indexed it: nothing to do. Buffer
+      // edits (and reverting them) leave the mtime alone, so those always rescan
+      const previous = this.files.get(filePath);
+      const stat = await fs.promises.stat(filePath).catch(() => undefined);
+      if (
+        previous &&
+        stat &&
+        previous.mtimeMs === stat.mtimeMs &&
+        !previous.unsaved &&
+        getUnsavedText(filePath) === undefined
+      ) {
+        continue;
+      }
+
+      const entry = await scanFile(folderPath, filePath, tag, contextLines);
+
+      if (
+        !entry ||
+        (entry.parsed.length === 0 &&
+          entry.malformed.length === 0 &&
+          entry.nodes.length === 0 &&
+          entry.flowDeclarations.length === 0)
+      ) {
+        changed = this.files.delete(filePath) || changed;
+        continue;
+      }
+
+      this.files.set(filePath, entry);
+      changed = true;
+    }
+
+    return changed;
+  }
+
+  has(uri: vscode.Uri): boolean {
+    return this.files.has(uri.fsPath);
+  }
+
+  /** True if the indexed entry for this file was read from a dirty editor. */
+  hasUnsaved(uri: vscode.Uri): boolean {
+    return this.files.get(uri.fsPath)?.unsaved === true;
+  }
+
+  removeFiles(uris: readonly vscode.Uri[]): boolean {
+    let changed = false;
+    for (const uri of uris) {
+      changed = this.files.delete(uri.fsPath) || changed;
+    }
+    return changed;
+  }
+
+  /** Pass a folder path to get only that workspace folder's comments. */
+  toScanResult(folderPath?: string): ScanResult {
+    const entries = Array.from(this.files.values())
+      .filter((entry) => folderPath === undefined || entry.folderPath === folderPath)
+      .sort((a, b) => a.filePath.localeCompare(b.filePath));
+    return buildScanResult(entries);
+  }
+}
@@ -0,0 +1,42 @@
+import * as assert from 'assert';
+import { findCommentRanges, getCommentSyntax, isInRanges } from '../commentSyntax';
+
+const TAG = '#@#@#@';
+
+/** Whether the first tag in the text sits inside a comment. */
+function tagIsCommented(text: string, fileName: string): boolean {
+	const syntax = getCommentSyntax(fileName);
+	assert.ok(syntax, `no syntax for ${fileName}`);
+	return isInRanges(text.indexOf(TAG), findCommentRanges(text, syntax));
+}
+
+suite('Comment syntax', () => {
+	test('finds line and block comments', () => {
+		assert.strictEqual(tagIsCommented(`run(); // ${TAG} a: x => y`, 'a.ts'), true);
+		assert.strictEqual(tagIsCommented(`/*\n * ${TAG} a: x => y\n */`, 'a.ts'), true);
+		assert.strictEqual(tagIsCommented(`-- ${TAG} a: x => y`, 'q.sql'), true);
+		assert.strictEqual(tagIsCommented(`<!-- ${TAG} a: x => y -->`, 'page.html'), true);
+	});
+
+	test('ignores tags in string literals and code', () => {
+		assert.strictEqual(tagIsCommented(`log("// ${TAG} a: x => y");`, 'a.ts'), false);
+		assert.strictEqual(tagIsCommented('const s = `\n' + `${TAG} a: x => y\n\`;`, 'a.ts'), false);
+		assert.strictEqual(tagIsCommented(`const tag = '${TAG}';`, 'a.ts'), false);
+	});
+
+	test('does not let escaped quotes end a string', () => {
+		assert.strictEqual(tagIsCommented(`s = "\\" // ${TAG} a: x => y"`, 'a.py'), false);
+	});
+
+	test('counts Python docstrings as comments', () => {
+		assert.strictEqual(tagIsCommented(`def f():\n    """${TAG} a: x => y"""`, 'a.py'), true);
+	});
+
+	test('lets user entries override or add languages', () => {
+		assert.strictEqual(getCommentSyntax('a.ml'), undefined);
+		assert.deepStrictEqual(getCommentSyntax('a.ml', { ml: { block: [['(*', '*)']] } }), {
+			block: [['(*', '*)']],
+		});
+		assert.deepStrictEqual(getCommentSyntax('a.ts', { '.ts': { line: ['#'] } }), { line: ['#'] });
+	});
+});
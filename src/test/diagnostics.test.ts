@@ -0,0 +1,47 @@
+import * as assert from 'assert';
+import { suggestCommentFixes } from '../diagnostics';
+
+const TAG = '#@#@#@';
+
+/** Fixes for a line whose tag is the first one on it. */
+function fixesFor(lineText: string) {
+	return suggestCommentFixes(lineText, TAG, lineText.indexOf(TAG));
+}
+
+suite('Comment quick fixes', () => {
+	test('replaces a single-dash arrow', () => {
+		assert.deepStrictEqual(fixesFor(`  // ${TAG} checkout: cart -> payment`), [
+			{ title: "Replace '->' with '=>'", lineText: `  // ${TAG} checkout: cart => payment` },
+		]);
+	});
+
+	test('adds the missing colon after the flow name', () => {
+		assert.deepStrictEqual(fixesFor(`// ${TAG} cross checkout cart => payment`), [
+			{
+				title: "Add missing ':' after the flow name",
+				lineText: `// ${TAG} cross checkout : cart => payment`,
+			},
+		]);
+	});
+
+	test('converts node names with spaces and keeps labels and block closers', () => {
+		assert.deepStrictEqual(fixesFor(`/* ${TAG} checkout: Add To Cart =[ok]=> payment */`), [
+			{
+				title: 'Convert node names with spaces to snake_case',
+				lineText: `/* ${TAG} checkout: add_to_cart =[ok]=> payment */`,
+			},
+		]);
+	});
+
+	test('combines fixes when no single one is enough', () => {
+		assert.deepStrictEqual(fixesFor(`// ${TAG} checkout cart -> payment`), [
+			{ title: 'Fix all flow comment issues', lineText: `// ${TAG} checkout : cart => payment` },
+		]);
+	});
+
+	test('offers nothing for lines no fix can repair or that are not malformed', () => {
+		assert.deepStrictEqual(fixesFor(`// ${TAG} just some words`), []);
+		assert.deepStrictEqual(fixesFor(`// ${TAG} checkout : node cart "Cart"`), []);
+		assert.deepStrictEqual(suggestCommentFixes(`// ${TAG} a: b -> c`, TAG, 0), []);
+	});
+});
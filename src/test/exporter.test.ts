@@ -0,0 +1,89 @@
+import * as assert from 'assert';
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { acceptSourceLocations } from '../exporter';
+import { FlowStore } from '../flowStore';
+import { Annotation } from '../types';
+
+const TAG = '#@#@#@';
+const COMMENT = `// ${TAG} checkout: pay => done`;
+
+function annotation(overrides: Partial<Annotation>): Annotation {
+	return {
+		id: 'a1',
+		filePath: 'web.js',
+		commitHash: '',
+		line: 1,
+		isoLine: 1,
+		column: 1,
+		contextBefore: [],
+		contextLine: COMMENT,
+		contextAfter: [],
+		flowName: 'checkout',
+		currentNode: 'pay',
+		nextNode: 'done',
+		crossDeclared: false,
+		rawComment: COMMENT,
+		meta: {},
+		...overrides,
+	};
+}
+
+suite('Accepting source locations', () => {
+	let dir: string;
+	let store: FlowStore;
+
+	setup(() => {
+		dir = fs.mkdtempSync(path.join(os.tmpdir(), 'flowrider-'));
+		const identity = ['-c', 'user.name=test', '-c', 'user.email=test@example.com'];
+		execFileSync('git', ['init', '-q'], { cwd: dir });
+		execFileSync('git', [...identity, 'commit', '-q', '--allow-empty', '-m', 'init'], { cwd: dir });
+		store = new FlowStore({ uri: vscode.Uri.file(dir), name: 'fixture', index: 0 });
+	});
+
+	teardown(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+	test('updates the moved copy of an edge that occurs more than once', async () => {
+		fs.writeFileSync(path.join(dir, 'web.js'), [COMMENT, 'pay();'].join('\n'));
+		fs.writeFileSync(
+			path.join(dir, 'api.js'),
+			['', '', COMMENT, 'pay();', '', COMMENT, 'retry();'].join('\n')
+		);
+		await store.load();
+		store.upsertFlow({
+			id: 'checkout',
+			name: 'checkout',
+			createdAt: '',
+			updatedAt: '',
+			declaredCross: false,
+			isCross: false,
+			annotations: [
+				annotation({ id: 'web', filePath: 'web.js', line: 1 }),
+				annotation({ id: 'api', filePath: 'api.js', line: 1 }),
+			],
+		});
+
+		const result = await acceptSourceLocations(store, TAG, 2, 'checkout', [
+			{
+				currentNode: 'pay',
+				nextNode: 'done',
+				dbLocation: { filePath: 'api.js', line: 1 },
+				filePath: 'api.js',
+				line: 6,
+			},
+		]);
+
+		assert.deepStrictEqual(result, { accepted: 1, skipped: [] });
+		const [flow] = store.getAllFlows();
+		assert.deepStrictEqual(
+			flow.annotations.map(({ id, filePath, line }) => [id, filePath, line]),
+			[
+				['web', 'web.js', 1],
+				['api', 'api.js', 6],
+			]
+		);
+	});
+});
@@ -0,0 +1,162 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+	parseFlowComment,
+	parseFlowDeclaration,
+	parseNodeDeclaration,
+	scanFile,
+} from '../flowParser';
+
+const TAG = '#@#@#@';
+
+suite('Flow comment grammar', () => {
+	test('parses a single edge', () => {
+		assert.deepStrictEqual(parseFlowComment(`// ${TAG} checkout : cart => payment`, TAG), {
+			crossDeclared: false,
+			flowName: 'checkout',
+			edges: [{ currentNode: 'cart', nextNode: 'payment' }],
+		});
+	});
+
+	test('fans out to every node in the next group', () => {
+		const parsed = parseFlowComment(`// ${TAG} checkout: cart => payment, shipping`, TAG);
+		assert.deepStrictEqual(parsed?.edges, [
+			{ currentNode: 'cart', nextNode: 'payment' },
+			{ currentNode: 'cart', nextNode: 'shipping' },
+		]);
+	});
+
+	test('connects each link of a chain', () => {
+		const parsed = parseFlowComment(`# ${TAG} checkout: a => b => c`, TAG);
+		assert.deepStrictEqual(parsed?.edges, [
+			{ currentNode: 'a', nextNode: 'b' },
+			{ currentNode: 'b', nextNode: 'c' },
+		]);
+	});
+
+	test('combines fan-in and fan-out across a chain', () => {
+		const parsed = parseFlowComment(`// ${TAG} checkout: a, b => c => d, e`, TAG);
+		assert.deepStrictEqual(
+			parsed?.edges.map(({ currentNode, nextNode }) => `${currentNode}>${nextNode}`),
+			['a>c', 'b>c', 'c>d', 'c>e']
+		);
+	});
+
+	test('recognises the cross keyword', () => {
+		const parsed = parseFlowComment(`// ${TAG} cross checkout: api => worker`, TAG);
+		assert.strictEqual(parsed?.crossDeclared, true);
+		assert.strictEqual(parsed?.flowName, 'checkout');
+	});
+
+	test('reads labels off labelled arrows', () => {
+		const parsed = parseFlowComment(`// ${TAG} checkout: pay =[card declined]=> retry => done`, TAG);
+		assert.deepStrictEqual(parsed?.edges, [
+			{ currentNode: 'pay', nextNode: 'retry', label: 'card declined' },
+			{ currentNode: 'retry', nextNode: 'done' },
+		]);
+	});
+
+	test('treats an empty label as a plain arrow', () => {
+		const parsed = parseFlowComment(`// ${TAG} checkout: pay =[ ]=> done`, TAG);
+		assert.deepStrictEqual(parsed?.edges, [{ currentNode: 'pay', nextNode: 'done' }]);
+	});
+
+	test('rejects comments without an edge', () => {
+		assert.strictEqual(parseFlowComment(`// ${TAG} checkout: cart`, TAG), undefined);
+		assert.strictEqual(parseFlowComment(`// ${TAG} cart => payment`, TAG), undefined);
+		assert.strictEqual(parseFlowComment(`// ${TAG} checkout: cart =>`, TAG), undefined);
+	});
+});
+
+suite('Node declarations', () => {
+	test('parses a quoted description', () => {
+		assert.deepStrictEqual(
+			parseNodeDeclaration(`// ${TAG} checkout : node cart "Shopping \\"cart\\" page"`, TAG),
+			{ flowName: 'checkout', nodeName: 'cart', description: 'Shopping "cart" page', markers: [] }
+		);
+	});
+
+	test('parses start and end markers before the description', () => {
+		assert.deepStrictEqual(
+			parseNodeDeclaration(`// ${TAG} checkout : node cart [start] [END] [start] "Cart"`, TAG),
+			{ flowName: 'checkout', nodeName: 'cart', description: 'Cart', markers: ['start', 'end'] }
+		);
+	});
+
+	test('needs a description or a marker', () => {
+		assert.strictEqual(parseNodeDeclaration(`// ${TAG} checkout : node cart`, TAG), undefined);
+	});
+
+	test('is not confused with an edge', () => {
+		assert.strictEqual(parseNodeDeclaration(`// ${TAG} checkout : node => cart`, TAG), undefined);
+	});
+});
+
+suite('Flow directives', () => {
+	test('parses quoted and bare attributes', () => {
+		assert.deepStrictEqual(
+			parseFlowDeclaration(`// ${TAG} flow checkout description="Buying \\"things\\"" owner=@shop`, TAG),
+			{ flowName: 'checkout', description: 'Buying "things"', tags: undefined, owner: '@shop' }
+		);
+		assert.deepStrictEqual(
+			parseFlowDeclaration(`/* ${TAG} flow checkout tags=payments,,web */`, TAG),
+			{ flowName: 'checkout', description: undefined, tags: ['payments', 'web'], owner: undefined }
+		);
+	});
+
+	test('ignores lines that are not flow directives', () => {
+		assert.strictEqual(parseFlowDeclaration(`// ${TAG} checkout: flow => done`, TAG), undefined);
+	});
+
+	test('reports unknown attributes and leftover text', () => {
+		assert.deepStrictEqual(parseFlowDeclaration(`// ${TAG} flow checkout color=red`, TAG), {
+			error: 'Unknown flow attribute "color" (expected description, tags or owner)',
+		});
+		assert.deepStrictEqual(parseFlowDeclaration(`// ${TAG} flow checkout tags=a, b`, TAG), {
+			error: 'Could not parse flow attributes near "b"',
+		});
+	});
+});
+
+suite('Scanning a file', () => {
+	let dir: string;
+
+	setup(() => {
+		dir = fs.mkdtempSync(path.join(os.tmpdir(), 'flowrider-'));
+	});
+
+	teardown(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+	test('only picks up tags inside comments', async () => {
+		const filePath = path.join(dir, 'cart.ts');
+		fs.writeFileSync(
+			filePath,
+			[
+				`const tag = "${TAG} checkout: fake => edge";`,
+				`pay(); // ${TAG} checkout: cart => payment`,
+				`log(\`${TAG} checkout: also => fake\`); // ${TAG} checkout: payment => done`,
+			].join('\n')
+		);
+
+		const entry = await scanFile(dir, filePath, TAG, 1);
+		assert.deepStrictEqual(
+			entry?.parsed.map(({ currentNode, nextNode, line, column }) => ({
+				currentNode,
+				nextNode,
+				line,
+				column,
+			})),
+			[
+				{ currentNode: 'cart', nextNode: 'payment', line: 2, column: 11 },
+				{ currentNode: 'payment', nextNode: 'done', line: 3, column: 42 },
+			]
+		);
+		assert.deepStrictEqual(entry?.malformed, []);
+	});
+
+	test('returns undefined for a file that cannot be read', async () => {
+		assert.strictEqual(await scanFile(dir, path.join(dir, 'missing.ts'), TAG, 1), undefined);
+	});
+});
@@ -0,0 +1,131 @@
+import * as assert from 'assert';
+import {
+	resolveFlowMetadata,
+	resolveNodeDescriptions,
+	resolveNodeMarkers,
+	validateGraph,
+} from '../flowState';
+import { FlowDeclaration, NodeDeclaration } from '../types';
+
+function node(overrides: Partial<NodeDeclaration>): NodeDeclaration {
+	return {
+		flowName: 'checkout',
+		nodeName: 'cart',
+		markers: [],
+		folderPath: '/repo',
+		filePath: '/repo/src/cart.ts',
+		relativePath: 'src/cart.ts',
+		line: 1,
+		column: 4,
+		rawComment: '',
+		...overrides,
+	};
+}
+
+function declaration(overrides: Partial<FlowDeclaration>): FlowDeclaration {
+	return {
+		flowName: 'checkout',
+		folderPath: '/repo',
+		filePath: '/repo/src/cart.ts',
+		relativePath: 'src/cart.ts',
+		line: 1,
+		column: 4,
+		rawComment: '',
+		...overrides,
+	};
+}
+
+suite('Node descriptions', () => {
+	test('groups descriptions by flow', () => {
+		const { byFlow, conflicts } = resolveNodeDescriptions([
+			node({ description: 'Cart page' }),
+			node({ nodeName: 'payment', description: 'Card form' }),
+			node({ flowName: 'refund', description: 'Refund cart' }),
+			node({ nodeName: 'done', markers: ['end'] }),
+		]);
+		assert.deepStrictEqual(byFlow.get('checkout'), { cart: 'Cart page', payment: 'Card form' });
+		assert.deepStrictEqual(byFlow.get('refund'), { cart: 'Refund cart' });
+		assert.deepStrictEqual(conflicts, []);
+	});
+
+	test('keeps the first description and reports a conflicting one', () => {
+		const { byFlow, conflicts } = resolveNodeDescriptions([
+			node({ description: 'Cart page' }),
+			node({ description: 'Cart page', line: 5 }),
+			node({ description: 'Basket', filePath: '/repo/src/basket.ts', line: 9 }),
+		]);
+		assert.deepStrictEqual(byFlow.get('checkout'), { cart: 'Cart page' });
+		assert.strictEqual(conflicts.length, 1);
+		assert.strictEqual(conflicts[0].filePath, '/repo/src/basket.ts');
+		assert.strictEqual(conflicts[0].lineNumber, 9);
+		assert.match(conflicts[0].reason, /first declared at src\/cart\.ts:1/);
+	});
+});
+
+suite('Flow metadata', () => {
+	test('merges declarations and unions tags', () => {
+		const { byFlow, conflicts } = resolveFlowMetadata([
+			declaration({ description: 'Buying things', tags: ['payments'] }),
+			declaration({ owner: '@shop', tags: ['web', 'payments'] }),
+		]);
+		assert.deepStrictEqual(byFlow.get('checkout'), {
+			description: 'Buying things',
+			owner: '@shop',
+			tags: ['payments', 'web'],
+		});
+		assert.deepStrictEqual(conflicts, []);
+	});
+
+	test('reports a disagreeing description or owner and keeps the first', () => {
+		const { byFlow, conflicts } = resolveFlowMetadata([
+			declaration({ owner: '@shop' }),
+			declaration({ owner: '@payments', line: 7 }),
+		]);
+		assert.strictEqual(byFlow.get('checkout')?.owner, '@shop');
+		assert.strictEqual(conflicts.length, 1);
+		assert.strictEqual(conflicts[0].lineNumber, 7);
+		assert.match(conflicts[0].reason, /Conflicting owner for flow "checkout"/);
+	});
+});
+
+suite('Graph validation', () => {
+	const edges = (...pairs: string[]) =>
+		pairs.map((pair) => {
+			const [currentPos, nextPos] = pair.split('>');
+			return { currentPos, nextPos };
+		});
+
+	test('collects start and end markers per flow', () => {
+		const markers = resolveNodeMarkers([
+			node({ nodeName: 'submit', markers: ['start'] }),
+			node({ nodeName: 'cart', markers: ['start', 'end'] }),
+			node({ nodeName: 'cart', markers: ['start'] }),
+			node({ flowName: 'refund', nodeName: 'x', description: 'No markers' }),
+		]);
+		assert.deepStrictEqual(Array.from(markers.entries()), [
+			['checkout', { startNodes: ['cart', 'submit'], endNodes: ['cart'] }],
+		]);
+	});
+
+	test('finds nodes no start node leads to', () => {
+		const { unreachable, deadEnds } = validateGraph(
+			['a', 'b', 'c', 'x', 'y'],
+			edges('a>b', 'b>c', 'c>a', 'x>y'),
+			['a'],
+			[]
+		);
+		assert.deepStrictEqual(unreachable, ['x', 'y']);
+		assert.deepStrictEqual(deadEnds, []);
+	});
+
+	test('finds nodes other than end nodes without outgoing edges', () => {
+		const { unreachable, deadEnds } = validateGraph(
+			['a', 'b', 'c', 'd'],
+			edges('a>b', 'a>c', 'c>d'),
+			[],
+			['d']
+		);
+		assert.deepStrictEqual(unreachable, []);
+		assert.deepStrictEqual(deadEnds, ['b']);
+	});
+});
@@ -0,0 +1,56 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { insertSingleComment } from '../hydrateWriter';
+import { Annotation } from '../types';
+
+const TAG = '#@#@#@';
+
+function annotation(overrides: Partial<Annotation>): Annotation {
+	return {
+		id: 'a1',
+		filePath: 'cart.ts',
+		commitHash: '',
+		line: 1,
+		isoLine: 1,
+		column: 1,
+		contextBefore: [],
+		contextLine: '',
+		contextAfter: [],
+		flowName: 'checkout',
+		currentNode: 'pay',
+		nextNode: 'retry',
+		crossDeclared: false,
+		rawComment: `// ${TAG} checkout: pay => retry`,
+		meta: {},
+		...overrides,
+	};
+}
+
+suite('Hydrate writer', () => {
+	let dir: string;
+
+	setup(() => {
+		dir = fs.mkdtempSync(path.join(os.tmpdir(), 'flowrider-'));
+	});
+
+	teardown(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+	test('keeps the label and cross marker when re-inserting one edge of a shared comment', async () => {
+		// pay => done already exists, so only the missing labelled edge is written
+		fs.writeFileSync(
+			path.join(dir, 'cart.ts'),
+			[`// ${TAG} checkout: pay => done`, 'pay();', 'retry();'].join('\n')
+		);
+		const edge = annotation({
+			label: 'card declined',
+			crossDeclared: true,
+			rawComment: `// ${TAG} cross checkout: pay =[card declined]=> retry, done`,
+		});
+
+		assert.strictEqual(await insertSingleComment(dir, edge, 3), true);
+		const lines = fs.readFileSync(path.join(dir, 'cart.ts'), 'utf8').split('\n');
+		assert.strictEqual(lines[2], `// ${TAG} cross checkout : pay =[card declined]=> retry`);
+	});
+});
@@ -0,0 +1,86 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { parse as parseJsonc } from 'jsonc-parser';
+import * as vscode from 'vscode';
+import { FlowStore } from '../flowStore';
+import { CURRENT_SCHEMA_VERSION, MIGRATIONS, RawDatabase, migrateDatabase } from '../migrations';
+
+// Fixtures stay in src/; tests run from the compiled out/test
+const FIXTURES = path.resolve(__dirname, '../../src/test/fixtures/migrations');
+
+function fixture(version: number): RawDatabase {
+	return parseJsonc(fs.readFileSync(path.join(FIXTURES, `v${version}.jsonc`), 'utf8'));
+}
+
+suite('Flow DB migrations', () => {
+	test('steps form an unbroken chain up to the current version', () => {
+		MIGRATIONS.forEach((step, index) => {
+			assert.strictEqual(step.from, index);
+			assert.strictEqual(step.to, index + 1);
+		});
+		assert.strictEqual(CURRENT_SCHEMA_VERSION, MIGRATIONS.length);
+	});
+
+	for (const step of MIGRATIONS) {
+		test(`v${step.from} → v${step.to}: ${step.description}`, () => {
+			assert.deepStrictEqual(step.apply(fixture(step.from)), fixture(step.to));
+		});
+	}
+
+	test('v1 → v2 takes crossDeclared from the owning flow', () => {
+		const migrated = migrateDatabase(fixture(1));
+		const crossDeclared = (flowId: string) =>
+			migrated.flows[flowId].annotations.map((annotation) => annotation.crossDeclared);
+		assert.deepStrictEqual(crossDeclared('sync'), [true]);
+		assert.deepStrictEqual(crossDeclared('checkout'), [false]);
+	});
+
+	test('migrates the oldest fixture all the way to the current version', () => {
+		assert.deepStrictEqual(migrateDatabase(fixture(0)), fixture(CURRENT_SCHEMA_VERSION));
+	});
+
+	suite('FlowStore', () => {
+		let dir: string;
+		let dbFile: string;
+		let store: FlowStore;
+
+		setup(() => {
+			dir = fs.mkdtempSync(path.join(os.tmpdir(), 'flowrider-'));
+			dbFile = path.join(dir, '.codeflows', 'flows.jsonc');
+			fs.mkdirSync(path.dirname(dbFile));
+			store = new FlowStore({ uri: vscode.Uri.file(dir), name: 'fixture', index: 0 });
+		});
+
+		teardown(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+		test('backs up an old DB before migrating it', async () => {
+			const original = fs.readFileSync(path.join(FIXTURES, 'v0.jsonc'), 'utf8');
+			fs.writeFileSync(dbFile, original);
+			await store.load();
+
+			const backups = fs.readdirSync(path.dirname(dbFile)).filter((name) => name.endsWith('.bak'));
+			assert.strictEqual(backups.length, 1);
+			assert.match(backups[0], /^flows\.jsonc\.v0-.+\.bak$/);
+			assert.strictEqual(fs.readFileSync(path.join(path.dirname(dbFile), backups[0]), 'utf8'), original);
+			assert.deepStrictEqual(parseJsonc(fs.readFileSync(dbFile, 'utf8')), fixture(CURRENT_SCHEMA_VERSION));
+		});
+
+		test('refuses a DB from a newer version without touching it', async () => {
+			const newer = JSON.stringify({ schemaVersion: CURRENT_SCHEMA_VERSION + 1, flows: {} });
+			fs.writeFileSync(dbFile, newer);
+			await assert.rejects(store.load(), /schema version/);
+			assert.strictEqual(fs.readFileSync(dbFile, 'utf8'), newer);
+		});
+
+		test('does not clobber a DB upgraded by a newer version after loading', async () => {
+			fs.writeFileSync(dbFile, JSON.stringify(fixture(CURRENT_SCHEMA_VERSION)));
+			await store.load();
+			const newer = JSON.stringify({ schemaVersion: CURRENT_SCHEMA_VERSION + 1, flows: {} });
+			fs.writeFileSync(dbFile, newer);
+			await assert.rejects(store.save(), /schema version/);
+			assert.strictEqual(fs.readFileSync(dbFile, 'utf8'), newer);
+		});
+	});
+});
@@ -0,0 +1,36 @@
+import * as assert from 'assert';
+import { normalizeLine, normalizeLines } from '../normalize';
+
+const TAG = '#@#@#@';
+
+suite('Line normalization', () => {
+	test('ignores formatting around punctuation', () => {
+		assert.strictEqual(normalizeLine('    foo( a, b );'), normalizeLine('foo(a,b)'));
+		assert.strictEqual(normalizeLine('const x = { a: 1, };'), normalizeLine('const x={a:1}'));
+		assert.strictEqual(normalizeLine("import { a } from 'b'"), normalizeLine('import {a} from "b";'));
+		assert.strictEqual(normalizeLine('if (a && b) {'), 'if(a&&b){');
+	});
+
+	test('keeps the space between identifiers and numbers', () => {
+		assert.strictEqual(normalizeLine('return   x'), 'return x');
+		assert.notStrictEqual(normalizeLine('return x'), normalizeLine('returnx'));
+		assert.notStrictEqual(normalizeLine('let a = 1 2'), normalizeLine('let a = 12'));
+	});
+
+	test('does not merge adjacent operators into a different one', () => {
+		assert.notStrictEqual(normalizeLine('a - -b'), normalizeLine('a --b'));
+		assert.notStrictEqual(normalizeLine('a + +b'), normalizeLine('a ++b'));
+		assert.notStrictEqual(normalizeLine('x = = y'), normalizeLine('x == y'));
+		assert.strictEqual(normalizeLine('a - -b'), normalizeLine('a-  -b'));
+	});
+
+	test('drops flow comments and blank lines but keeps line numbers', () => {
+		assert.deepStrictEqual(
+			normalizeLines(['  a();', '', `// ${TAG} f: x => y`, 'b( 1 );'], TAG, 10),
+			[
+				{ line: 10, text: 'a()' },
+				{ line: 13, text: 'b(1)' },
+			]
+		);
+	});
+});
@@ -0,0 +1,316 @@
+import * as assert from 'assert';
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { inferAstAnchor } from '../ast';
+import { RemapEngine } from '../remapper';
+import { Annotation, FlowRecord } from '../types';
+
+const SOURCE = [
+	'import { charge } from "./payments";',
+	'',
+	'export function checkout(cart) {',
+	'  const total = sum(cart.items);',
+	'  validate(cart);',
+	'  return charge(total);',
+	'}',
+	'',
+	'function sum(items) {',
+	'  return items.reduce((a, b) => a + b.price, 0);',
+	'}',
+];
+
+function git(dir: string, ...args: string[]): string {
+	return execFileSync('git', ['-c', 'user.name=test', '-c', 'user.email=test@example.com', ...args], {
+		cwd: dir,
+		encoding: 'utf8',
+	}).trim();
+}
+
+/** The annotation an export would record for a comment above `line` (1-based). */
+function annotationAt(lines: string[], line: number, overrides: Partial<Annotation> = {}): Annotation {
+	const idx = line - 1;
+	return {
+		id: 'a1',
+		filePath: 'checkout.js',
+		commitHash: '',
+		line,
+		isoLine: line,
+		column: 1,
+		contextBefore: lines.slice(Math.max(0, idx - 2), idx),
+		contextLine: lines[idx],
+		contextAfter: lines.slice(idx + 1, idx + 3),
+		flowName: 'checkout',
+		currentNode: 'validate',
+		nextNode: 'charge',
+		crossDeclared: false,
+		rawComment: '// #@#@#@ checkout: validate => charge',
+		meta: {},
+		...overrides,
+	};
+}
+
+function flowOf(annotation: Annotation): FlowRecord {
+	return {
+		id: 'checkout',
+		name: 'checkout',
+		createdAt: '',
+		updatedAt: '',
+		declaredCross: false,
+		isCross: false,
+		annotations: [annotation],
+	};
+}
+
+suite('Remap pipeline', () => {
+	let dir: string;
+	let engine: RemapEngine;
+
+	const write = (relative: string, lines: string[]) =>
+		fs.writeFileSync(path.join(dir, relative), lines.join('\n'));
+
+	setup(() => {
+		dir = fs.mkdtempSync(path.join(os.tmpdir(), 'flowrider-'));
+		engine = new RemapEngine(dir);
+	});
+
+	teardown(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+	suite('without history', () => {
+		test('finds reformatted code with the exact snippet stage', async () => {
+			write('checkout.js', [
+				'export function checkout( cart ) {',
+				'    const total = sum( cart.items );',
+				'    validate( cart ) ;',
+				'    return charge( total );',
+				'}',
+			]);
+			const { candidates, explanation } = await engine.findCandidatesForMissingEdge(
+				'checkout.js',
+				SOURCE.slice(2, 4),
+				SOURCE[4],
+				SOURCE.slice(5, 7)
+			);
+			assert.strictEqual(candidates[0].line, 3);
+			assert.strictEqual(candidates[0].source, 'exact-snippet');
+			assert.strictEqual(candidates[0].score, 1);
+			const exact = explanation.stages.find((stage) => stage.stage === 'exact-snippet');
+			assert.deepStrictEqual([exact?.ran, exact?.matches], [true, 1]);
+			assert.match(explanation.decision, /exact-snippet at line 3/);
+		});
+
+		test('falls back to the context line when the surroundings changed', async () => {
+			write('checkout.js', ['function other() {', '  log();', '  validate(cart);', '  done();', '}']);
+			const { candidates } = await engine.findCandidatesForMissingEdge(
+				'checkout.js',
+				SOURCE.slice(2, 4),
+				SOURCE[4],
+				SOURCE.slice(5, 7)
+			);
+			const byContextLine = candidates.find((candidate) => candidate.source === 'context-line');
+			assert.strictEqual(byContextLine?.line, 3);
+		});
+
+		test('searches other files when the annotated file is gone', async () => {
+			git(dir, 'init', '-q');
+			write('moved.js', SOURCE);
+			const { candidates, explanation } = await engine.findCandidatesForMissingEdge(
+				'checkout.js',
+				SOURCE.slice(2, 4),
+				SOURCE[4],
+				SOURCE.slice(5, 7)
+			);
+			assert.strictEqual(candidates[0].filePath, 'moved.js');
+			assert.strictEqual(candidates[0].line, 5);
+			assert.deepStrictEqual(explanation.stages.map((stage) => stage.stage), ['other-files']);
+		});
+	});
+
+	suite('with history', () => {
+		let exported: string;
+
+		setup(() => {
+			git(dir, 'init', '-q');
+			write('checkout.js', SOURCE);
+			git(dir, 'add', '-A');
+			git(dir, 'commit', '-q', '-m', 'export');
+			exported = git(dir, 'rev-parse', 'HEAD');
+		});
+
+		test('follows inserted lines through the diff stage', async () => {
+			write('checkout.js', ['// licence', '// header', ...SOURCE]);
+			const {
+				annotations: [{ resolution }],
+			} = await engine.remapFlow(flowOf(annotationAt(SOURCE, 5, { commitHash: exported })));
+			assert.strictEqual(resolution.kind, 'auto');
+			assert.strictEqual(resolution.kind === 'auto' && resolution.line, 7);
+			assert.strictEqual(resolution.kind === 'auto' && resolution.source, 'diff');
+			assert.ok(resolution.explanation?.stages.slice(1).every((stage) => !stage.ran));
+		});
+
+		test('follows a renamed file', async () => {
+			git(dir, 'mv', 'checkout.js', 'cart.js');
+			git(dir, 'commit', '-q', '-m', 'rename');
+			const {
+				annotations: [{ resolution }],
+			} = await engine.remapFlow(flowOf(annotationAt(SOURCE, 5, { commitHash: exported })));
+			assert.strictEqual(resolution.kind, 'auto');
+			assert.strictEqual(resolution.kind === 'auto' && resolution.filePath, 'cart.js');
+		});
+
+		test('only searches untracked files that contain the context of a deleted file', async () => {
+			fs.rmSync(path.join(dir, 'checkout.js'));
+			write('moved.js', SOURCE);
+			write('ignored.js', SOURCE);
+			write('.gitignore', ['ignored.js']);
+			write('unrelated.js', ['export const answer = 42;']);
+			const flow = flowOf(annotationAt(SOURCE, 5, { commitHash: exported }));
+			flow.annotations.push(annotationAt(SOURCE, 10, { id: 'a2', commitHash: exported }));
+
+			const { annotations } = await engine.remapFlow(flow);
+			for (const { resolution } of annotations) {
+				assert.strictEqual(resolution.kind, 'candidates');
+				assert.deepStrictEqual(
+					resolution.kind === 'candidates' &&
+						Array.from(new Set(resolution.candidates.map((candidate) => candidate.filePath))),
+					['moved.js']
+				);
+				assert.match(resolution.explanation?.stages[0].note ?? '', /^1 file\(s\)/);
+			}
+		});
+
+		test('reports an unknown export commit as missing history', async () => {
+			const {
+				annotations: [{ resolution }],
+			} = await engine.remapFlow(flowOf(annotationAt(SOURCE, 5, { commitHash: 'deadbeef' })));
+			assert.strictEqual(resolution.kind === 'unmapped' && resolution.reason, 'git-missing');
+			assert.ok(resolution.explanation?.stages.every((stage) => !stage.ran));
+		});
+
+		test('places a reworded statement by its structural anchor', async () => {
+			const astAnchor = inferAstAnchor('checkout.js', SOURCE.join('\n'), 10);
+			write('checkout.js', [
+				'// totals',
+				'function total(entries) {',
+				'  return entries.reduce((x, y) => x + y.price, 0);',
+				'}',
+			]);
+			const {
+				annotations: [{ resolution }],
+			} = await engine.remapFlow(
+				flowOf(annotationAt(SOURCE, 10, { commitHash: exported, astAnchor }))
+			);
+			assert.strictEqual(resolution.kind === 'auto' && resolution.source, 'ast');
+			assert.strictEqual(resolution.kind === 'auto' && resolution.line, 3);
+		});
+
+		test('does not place a comment on a look-alike one-line statement', async () => {
+			const astAnchor = inferAstAnchor('checkout.js', SOURCE.join('\n'), 5);
+			write('checkout.js', [
+				'export function refund(order) {',
+				'  const fee = 0;',
+				'  notify(order);',
+				'  return fee;',
+				'}',
+			]);
+			const {
+				annotations: [{ resolution }],
+			} = await engine.remapFlow(
+				flowOf(annotationAt(SOURCE, 5, { commitHash: exported, astAnchor }))
+			);
+			assert.notStrictEqual(resolution.kind, 'auto');
+			const ast = resolution.explanation?.stages.find((stage) => stage.stage === 'ast');
+			assert.strictEqual(ast?.matches, 1);
+			assert.ok((ast?.bestScore ?? 1) < 0.9);
+		});
+
+		test('traces history across a rename', async () => {
+			git(dir, 'mv', 'checkout.js', 'cart.js');
+			git(dir, 'commit', '-q', '-m', 'rename');
+			write('cart.js', ['// header', ...SOURCE]);
+			git(dir, 'commit', '-q', '-am', 'header');
+
+			const trace = await engine.traceAnnotation(annotationAt(SOURCE, 5, { commitHash: exported }));
+			assert.strictEqual(trace.breaking, undefined);
+			assert.deepStrictEqual(
+				trace.steps.map((step) => [step.commit.subject, step.line]),
+				[
+					['rename', 5],
+					['header', 6],
+					['Working tree', 6],
+				]
+			);
+			assert.strictEqual(trace.candidate?.filePath, 'cart.js');
+			assert.strictEqual(trace.candidate?.line, 6);
+		});
+
+		test('remaps onto another ref without touching the working tree', async () => {
+			git(dir, 'checkout', '-q', '-b', 'feature');
+			write('checkout.js', ['// header', ...SOURCE]);
+			git(dir, 'commit', '-q', '-am', 'header');
+			git(dir, 'checkout', '-q', '-');
+
+			const result = await engine.remapFlow(
+				flowOf(annotationAt(SOURCE, 5, { commitHash: exported })),
+				'feature'
+			);
+			const [{ resolution }] = result.annotations;
+			assert.strictEqual(result.ref, 'feature');
+			assert.strictEqual(resolution.kind === 'auto' && resolution.line, 6);
+		});
+	});
+
+	suite('in a subfolder of the repository', () => {
+		let repo: string;
+		let exported: string;
+
+		setup(() => {
+			repo = dir;
+			dir = path.join(repo, 'packages', 'shop');
+			fs.mkdirSync(dir, { recursive: true });
+			engine = new RemapEngine(dir);
+			git(repo, 'init', '-q');
+			write('checkout.js', SOURCE);
+			git(repo, 'add', '-A');
+			git(repo, 'commit', '-q', '-m', 'export');
+			exported = git(repo, 'rev-parse', 'HEAD');
+			git(repo, 'mv', 'packages/shop/checkout.js', 'packages/shop/cart.js');
+			git(repo, 'commit', '-q', '-m', 'rename');
+		});
+
+		teardown(() => {
+			dir = repo;
+		});
+
+		test('follows a renamed file with folder-relative paths', async () => {
+			const {
+				annotations: [{ resolution }],
+			} = await engine.remapFlow(flowOf(annotationAt(SOURCE, 5, { commitHash: exported })));
+			assert.strictEqual(resolution.kind === 'auto' && resolution.filePath, 'cart.js');
+			assert.strictEqual(resolution.kind === 'auto' && resolution.line, 5);
+		});
+
+		test('traces history across the rename', async () => {
+			const trace = await engine.traceAnnotation(annotationAt(SOURCE, 5, { commitHash: exported }));
+			assert.strictEqual(trace.breaking, undefined);
+			assert.strictEqual(trace.candidate?.filePath, 'cart.js');
+		});
+
+		test('reads files at a ref from the folder', async () => {
+			git(dir, 'checkout', '-q', '-b', 'feature');
+			write('cart.js', ['// header', ...SOURCE]);
+			git(dir, 'commit', '-q', '-am', 'header');
+			git(dir, 'checkout', '-q', '-');
+
+			const {
+				annotations: [{ resolution }],
+			} = await engine.remapFlow(
+				flowOf(annotationAt(SOURCE, 5, { commitHash: exported })),
+				'feature'
+			);
+			assert.strictEqual(resolution.kind === 'auto' && resolution.filePath, 'cart.js');
+			assert.strictEqual(resolution.kind === 'auto' && resolution.line, 6);
+		});
+	});
+});
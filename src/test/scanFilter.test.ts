@@ -0,0 +1,105 @@
+import * as assert from 'assert';
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FLOWRIDER_IGNORE, ScanFilter } from '../scanFilter';
+
+suite('Scan filter', () => {
+	let dir: string;
+
+	setup(() => {
+		dir = fs.mkdtempSync(path.join(os.tmpdir(), 'flowrider-'));
+	});
+
+	teardown(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+	const write = (relative: string, content: string) => {
+		fs.mkdirSync(path.dirname(path.join(dir, relative)), { recursive: true });
+		fs.writeFileSync(path.join(dir, relative), content);
+	};
+
+	test('always skips .git, the flow DB directory and paths outside the folder', () => {
+		const filter = ScanFilter.forFolder(dir);
+		assert.strictEqual(filter.isExcluded('.git/config'), true);
+		assert.strictEqual(filter.isExcluded('.codeflows/flows.jsonc'), true);
+		assert.strictEqual(filter.isExcluded('../elsewhere.ts'), true);
+		assert.strictEqual(filter.isExcluded('src/app.ts'), false);
+	});
+
+	test('honours the root and nested .gitignore files relative to their directory', () => {
+		write('.gitignore', 'dist/\n*.log\n');
+		write('packages/web/.gitignore', '/generated.ts\n');
+		const filter = ScanFilter.forFolder(dir);
+		assert.strictEqual(filter.isExcluded('dist/bundle.js'), true);
+		assert.strictEqual(filter.isExcluded('src/debug.log'), true);
+		assert.strictEqual(filter.isExcluded('packages/web/generated.ts'), true);
+		assert.strictEqual(filter.isExcluded('packages/web/src/generated.ts'), false);
+		assert.strictEqual(filter.isExcluded('generated.ts'), false);
+	});
+
+	test('honours .flowriderignore at the folder root, including negations', () => {
+		write(FLOWRIDER_IGNORE, 'vendor/*\n!vendor/ours.ts\n');
+		const filter = ScanFilter.forFolder(dir);
+		assert.strictEqual(filter.isExcluded('vendor/lib.ts'), true);
+		assert.strictEqual(filter.isExcluded('vendor/ours.ts'), false);
+	});
+
+	test('applies directory-only patterns to directories only', () => {
+		write('.gitignore', 'build/\n');
+		const filter = ScanFilter.forFolder(dir);
+		assert.strictEqual(filter.isExcluded('build', true, false), true);
+		assert.strictEqual(filter.isExcluded('build'), false);
+		assert.strictEqual(filter.isExcluded('src/build/out.ts'), true);
+	});
+
+	test('honours the other ignore files ripgrep reads, with its precedence', () => {
+		write('.git/info/exclude', 'local/\n');
+		write('.gitignore', '*.gen.ts\n');
+		write('.ignore', 'scratch/\n');
+		write('src/.rgignore', '!keep.gen.ts\n');
+		const filter = ScanFilter.forFolder(dir);
+		assert.strictEqual(filter.isExcluded('local/notes.ts'), true);
+		assert.strictEqual(filter.isExcluded('scratch/try.ts'), true);
+		assert.strictEqual(filter.isExcluded('src/api.gen.ts'), true);
+		assert.strictEqual(filter.isExcluded('src/keep.gen.ts'), false);
+	});
+
+	test('lets through the same files as ripgrep', function () {
+		try {
+			execFileSync('rg', ['--version']);
+		} catch {
+			this.skip(); // ripgrep not installed
+		}
+		const files = [
+			'src/app.ts',
+			'src/api.gen.ts',
+			'src/keep.gen.ts',
+			'local/notes.ts',
+			'scratch/try.ts',
+			'vendor/lib.ts',
+			'vendor/ours.ts',
+			'packages/web/generated.ts',
+			'packages/web/src/generated.ts',
+		];
+		files.forEach((file) => write(file, 'x\n'));
+		write('.git/info/exclude', 'local/\n');
+		write('.gitignore', '*.gen.ts\n');
+		write('.ignore', 'scratch/\n');
+		write('src/.rgignore', '!keep.gen.ts\n');
+		write('packages/web/.gitignore', '/generated.ts\n');
+		write(FLOWRIDER_IGNORE, 'vendor/*\n!vendor/ours.ts\n');
+
+		const filter = ScanFilter.forFolder(dir);
+		const byRipgrep = execFileSync('rg', ['--files', '--hidden', ...filter.ripgrepArgs(), '.'], {
+			cwd: dir,
+			encoding: 'utf8',
+		})
+			.split('\n')
+			.filter((line) => files.includes(line.replace(/^\.\//, '')))
+			.map((line) => line.replace(/^\.\//, ''))
+			.sort();
+		const byFilter = files.filter((file) => !filter.isExcluded(file)).sort();
+		assert.deepStrictEqual(byFilter, byRipgrep);
+	});
+});
@@ -0,0 +1,244 @@
+import * as path from 'path';
+import Parser = require('web-tree-sitter');
+import { registerSymbolIndexProvider } from './ast';
+import { AnchorNode, AnchorTree } from './astAnchor';
+import { SymbolIndex, SymbolRange } from './types';
+
+type SyntaxNode = Parser.SyntaxNode;
+
+/** Returns the name parts a node adds to the symbol path, or undefined if it adds none. */
+type NameResolver = (node: SyntaxNode) => string[] | undefined;
+
+interface LanguageSpec {
+  wasm: string; // file name inside tree-sitter-wasms/out
+  extensions: string[];
+  symbols: Record<string, NameResolver>; // node type -> how to name it
+}
+
+const byField =
+  (field: string): NameResolver =>
+  (node) => {
+    const name = node.childForFieldName(field)?.text;
+    return name ? [name] : undefined;
+  };
+
+// Type declarations without a body (`struct Foo;`, forward declarations) are not scopes
+const definedByField =
+  (field: string): NameResolver =>
+  (node) =>
+    node.childForFieldName('body') ? byField(field)(node) : undefined;
+
+/** `func (s *Server) Handle()` -> Server.Handle */
+const goMethod: NameResolver = (node) => {
+  const name = node.childForFieldName('name')?.text;
+  const receiver = node.childForFieldName('receiver');
+  const receiverType = receiver?.descendantsOfType('type_identifier')[0]?.text;
+  if (!name) {
+    return undefined;
+  }
+  return receiverType ? [receiverType, name] : [name];
+};
+
+/** `type Server struct {...}` names the type_spec, not the declaration */
+const goType: NameResolver = (node) => {
+  const spec = node.namedChildren.find((child) => child.type === 'type_spec');
+  const name = spec?.childForFieldName('name')?.text;
+  return name ? [name] : undefined;
+};
+
+/** `impl Display for Server` -> Server (generic arguments dropped) */
+const rustImpl: NameResolver = (node) => {
+  const type = node.childForFieldName('type');
+  const name = type?.type === 'generic_type' ? type.childForFieldName('type')?.text : type?.text;
+  return name ? [name] : undefined;
+};
+
+/**
+ * C/C++ function names sit under nested declarators (pointers, references,
+ * the function declarator itself). Qualified names such as `Server::handle`
+ * become separate path parts.
+ */
+const cFunction: NameResolver = (node) => {
+  let declarator = node.childForFieldName('declarator');
+  while (declarator && declarator.childForFieldName('declarator')) {
+    declarator = declarator.childForFieldName('declarator');
+  }
+  const name = declarator?.text;
+  return name ? name.split('::').filter((part) => part.length > 0) : undefined;
+};
+
+const LANGUAGES: LanguageSpec[] = [
+  {
+    wasm: 'tree-sitter-python.wasm',
+    extensions: ['.py', '.pyi'],
+    symbols: {
+      class_definition: byField('name'),
+      function_definition: byField('name'),
+    },
+  },
+  {
+    wasm: 'tree-sitter-go.wasm',
+    extensions: ['.go'],
+    symbols: {
+      function_declaration: byField('name'),
+      method_declaration: goMethod,
+      type_declaration: goType,
+    },
+  },
+  {
+    wasm: 'tree-sitter-rust.wasm',
+    extensions: ['.rs'],
+    symbols: {
+      mod_item: definedByField('name'),
+      struct_item: byField('name'),
+      enum_item: byField('name'),
+      trait_item: byField('name'),
+      impl_item: rustImpl,
+      function_item: byField('name'),
+    },
+  },
+  {
+    wasm: 'tree-sitter-java.wasm',
+    extensions: ['.java'],
+    symbols: {
+      class_declaration: byField('name'),
+      interface_declaration: byField('name'),
+      enum_declaration: byField('name'),
+      record_declaration: byField('name'),
+      method_declaration: byField('name'),
+      constructor_declaration: () => ['constructor'], // same path as TypeScript constructors
+    },
+  },
+  {
+    wasm: 'tree-sitter-c.wasm',
+    extensions: ['.c', '.h'],
+    symbols: {
+      struct_specifier: definedByField('name'),
+      function_definition: cFunction,
+    },
+  },
+  {
+    wasm: 'tree-sitter-cpp.wasm',
+    extensions: ['.cpp', '.cc', '.cxx', '.hpp', '.hh', '.hxx'],
+    symbols: {
+      namespace_definition: definedByField('name'),
+      class_specifier: definedByField('name'),
+      struct_specifier: definedByField('name'),
+      function_definition: cFunction,
+    },
+  },
+];
+
+function buildTreeSitterIndex(parser: Parser, spec: LanguageSpec, content: string): SymbolIndex {
+  const tree = parser.parse(content);
+  const byPath = new Map<string, SymbolRange>();
+
+  const visit = (node: SyntaxNode, stack: string[]) => {
+    const resolve = spec.symbols[node.type];
+    const parts = resolve?.(node);
+    const nextStack = parts ? [...stack, ...parts] : stack;
+
+    if (parts) {
+      const range: SymbolRange = {
+        path: nextStack.join('.'),
+        startLine: node.startPosition.row + 1,
+        endLine: node.endPosition.row + 1,
+        nodeType: node.type,
+      };
+      byPath.set(range.path, range);
+    }
+
+    for (const child of node.namedChildren) {
+      visit(child, nextStack);
+    }
+  };
+
+  try {
+    visit(tree.rootNode, []);
+  } finally {
+    tree.delete(); // trees live in WASM memory
+  }
+  return { byPath };
+}
+
+const isComment = (node: SyntaxNode) => node.type.includes('comment');
+
+/** Leaf token as it enters the fingerprint; anonymous tokens (keywords, punctuation) are their own type. */
+function normalizeLeaf(node: SyntaxNode): string {
+  if (!node.isNamed) {
+    return node.type;
+  }
+  if (node.type.includes('identifier')) {
+    return 'id';
+  }
+  if (/string|char|number|integer|float|literal/.test(node.type)) {
+    return 'lit';
+  }
+  return node.type;
+}
+
+function buildTreeSitterAnchorTree(parser: Parser, content: string): AnchorTree {
+  const tree = parser.parse(content);
+  const tokens: string[] = [];
+
+  const convert = (node: SyntaxNode): AnchorNode => {
+    const tokenStart = tokens.length;
+    const children: AnchorNode[] = [];
+    if (node.childCount === 0) {
+      tokens.push(normalizeLeaf(node));
+    }
+    for (const child of node.children) {
+      if (isComment(child)) {
+        continue;
+      }
+      const converted = convert(child);
+      if (child.isNamed) {
+        children.push(converted);
+      }
+    }
+    return {
+      kind: node.type,
+      startLine: node.startPosition.row + 1,
+      endLine: node.endPosition.row + 1,
+      tokenStart,
+      tokenEnd: tokens.length,
+      children,
+    };
+  };
+
+  try {
+    return { root: convert(tree.rootNode), tokens };
+  } finally {
+    tree.delete();
+  }
+}
+
+let loading: Promise<void> | undefined;
+
+/**
+ * Load the tree-sitter grammars and register a symbol index provider for
+ * each. Grammars that fail to load are skipped, leaving those languages
+ * without symbol paths as before. Safe to call more than once.
+ */
+export function loadTreeSitterProviders(): Promise<void> {
+  loading ??= (async () => {
+    await Parser.init();
+    const wasmDir = path.join(path.dirname(require.resolve('tree-sitter-wasms/package.json')), 'out');
+
+    for (const spec of LANGUAGES) {
+      try {
+        const language = await Parser.Language.load(path.join(wasmDir, spec.wasm));
+        const parser = new Parser();
+        parser.setLanguage(language);
+        registerSymbolIndexProvider({
+          extensions: spec.extensions,
+          buildIndex: (_filePath, content) => buildTreeSitterIndex(parser, spec, content),
+          buildAnchorTree: (_filePath, content) => buildTreeSitterAnchorTree(parser, content),
+        });
+      } catch (error) {
+        console.warn(`[FlowRider] could not load ${spec.wasm}`, error);
+      }
+    }
+  })();
+  return loading;
+}
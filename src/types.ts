@@ -4,6 +4,7 @@ export interface FlowEdge {
   nextPos: string;
   filePath: string;
   lineNumber: number;
+  label?: string; // optional edge condition, e.g. "on error"
 }
 
 export interface FlowGraph {
@@ -15,6 +16,7 @@ export interface FlowGraph {
 export interface MalformedComment {
   filePath: string;
   lineNumber: number;
+  column?: number; // 1-based column of the tag, when known
   rawText: string;
   reason: string;
 }
@@ -36,9 +38,11 @@ export interface Annotation {
   contextAfter: string[];
   symbolPath?: string | null;
   nodeType?: string | null;
+  astAnchor?: AstAnchor | null;
   flowName: string;
   currentNode: string;
   nextNode: string;
+  label?: string; // display-only; not part of edge identity
   crossDeclared: boolean;
   note?: string;
   rawComment: string;
@@ -50,10 +54,14 @@ export interface FlowRecord {
   name: string;
   description?: string;
   tags?: string[];
+  owner?: string;
   createdAt: string;
   updatedAt: string;
   declaredCross: boolean;
   isCross: boolean;
+  nodeDescriptions?: Record<string, string>;
+  startNodes?: string[];
+  endNodes?: string[];
   annotations: Annotation[];
 }
 
@@ -81,11 +89,13 @@ export interface ParsedComment {
   flowName: string;
   currentNode: string;
   nextNode: string;
+  label?: string;
   crossDeclared: boolean;
   rawComment: string;
   line: number;
   isoLine: number;
   column: number;
+  folderPath: string; // workspace folder root that relativePath is relative to
   filePath: string;
   relativePath: string;
   contextBefore: string[];
@@ -93,11 +103,63 @@ export interface ParsedComment {
   contextAfter: string[];
   symbolPath?: string | null;
   nodeType?: string | null;
+  astAnchor?: AstAnchor | null;
+}
+
+/** Entry points and terminal states of a flow, declared on node directives */
+export type NodeMarker = 'start' | 'end';
+
+/** `TAG FLOW : node NAME [start] [end] "description"` — describes a node without adding an edge */
+export interface NodeDeclaration {
+  flowName: string;
+  nodeName: string;
+  description?: string;
+  markers: NodeMarker[];
+  folderPath: string;
+  filePath: string;
+  relativePath: string;
+  line: number;
+  column: number;
+  rawComment: string;
+}
+
+/** `TAG flow FLOW description="..." tags=a,b owner=@team` — flow-level metadata */
+export interface FlowDeclaration {
+  flowName: string;
+  description?: string;
+  tags?: string[];
+  owner?: string;
+  folderPath: string;
+  filePath: string;
+  relativePath: string;
+  line: number;
+  column: number;
+  rawComment: string;
+}
+
+export interface FlowMetadata {
+  description?: string;
+  tags: string[];
+  owner?: string;
 }
 
 export interface ScanResult {
   parsed: ParsedComment[];
   malformed: MalformedComment[];
+  nodes: NodeDeclaration[];
+  flowDeclarations: FlowDeclaration[];
+  unsavedFiles: string[]; // absolute paths read from dirty editors instead of disk
+}
+
+export interface FileScanEntry {
+  folderPath: string;
+  filePath: string; // absolute
+  mtimeMs: number;
+  unsaved: boolean; // content came from a dirty editor, not the file on disk
+  parsed: ParsedComment[];
+  malformed: MalformedComment[];
+  nodes: NodeDeclaration[];
+  flowDeclarations: FlowDeclaration[];
 }
 
 // -----------------------------
@@ -114,7 +176,8 @@ export type MatchSource =
   | 'exact-snippet'
   | 'context-line'
   | 'fuzzy-window'
-  | 'ast';
+  | 'ast'
+  | 'history'; // position reached by replaying the file's commits one by one
 
 export interface MatchCandidate {
   line: number;
@@ -122,12 +185,53 @@ export interface MatchCandidate {
   source: MatchSource;
   snippet?: string;
   symbol?: string;
+  filePath?: string; // relative; set when the match is not in the annotation's own file
+}
+
+/** Scores at which a remap match is applied, offered, or kept at all. */
+export interface MatchThresholds {
+  strict: number; // applied automatically at or above
+  candidate: number; // offered for review at or above
+  fuzzyMin: number; // fuzzy windows below this are not kept
+}
+
+/** One stage of the remap pipeline and what it found. */
+export interface MatchStageReport {
+  stage: MatchSource | 'other-files';
+  ran: boolean; // false when skipped or not reached
+  matches: number;
+  bestScore?: number;
+  note?: string;
 }
 
-export type ResolutionStatus =
-  | { kind: 'auto'; line: number; confidence: number; source: MatchSource }
+/** How a resolution was reached, for the "why?" view. */
+export interface MatchExplanation {
+  stages: MatchStageReport[];
+  requestedSymbol?: string; // symbol path stored with the annotation
+  scopedTo?: string; // symbol the search was limited to; whole file when unset
+  thresholds: MatchThresholds;
+  winner?: MatchCandidate;
+  runnerUp?: MatchCandidate;
+  decision: string;
+}
+
+export type ResolutionStatus = (
+  | {
+      kind: 'auto';
+      line: number;
+      confidence: number;
+      source: MatchSource;
+      filePath?: string; // relative; set when the file was renamed since export
+    }
   | { kind: 'candidates'; candidates: MatchCandidate[] }
-  | { kind: 'unmapped'; reason: 'no-match' | 'file-missing' | 'git-missing'; note?: string };
+  | { kind: 'unmapped'; reason: 'no-match' | 'file-missing' | 'git-missing'; note?: string }
+) & { explanation?: MatchExplanation };
+
+/** Candidates from a snippet search, with how they were found. */
+export interface CandidateSearch {
+  candidates: MatchCandidate[];
+  explanation: MatchExplanation;
+}
 
 export interface HydratedAnnotation {
   annotation: Annotation;
@@ -137,6 +241,40 @@ export interface HydratedAnnotation {
 export interface HydratedFlow {
   flow: FlowRecord;
   annotations: HydratedAnnotation[];
+  ref?: string; // remapped onto this git ref instead of the working tree
+}
+
+export interface CommitInfo {
+  hash: string; // empty for the working tree
+  author: string;
+  date: string; // ISO 8601
+  subject: string;
+}
+
+/** One version of the file in an annotation trace and how well the annotation carried over. */
+export interface AnnotationTraceStep {
+  commit: CommitInfo;
+  confidence: number; // 0 when nothing matched
+  line?: number; // resolved line in this version, if any
+  source?: MatchSource;
+}
+
+/**
+ * Result of replaying an annotation through every commit that touched its
+ * file. `breaking` is the first version where it no longer resolved on its
+ * own; without one, `candidate` is where it ends up in the working tree.
+ */
+export interface AnnotationTrace {
+  annotation: Annotation;
+  steps: AnnotationTraceStep[];
+  breaking?: {
+    commit: CommitInfo;
+    confidence: number;
+    lastLine: number; // line in the previous version, where it was last tracked
+    diffHunk?: string;
+  };
+  candidate?: MatchCandidate;
+  note?: string; // why the trace could not start
 }
 
 export interface SymbolRange {
@@ -150,12 +288,24 @@ export interface SymbolIndex {
   byPath: Map<string, SymbolRange>;
 }
 
+/**
+ * Structural position of a flow comment: the first syntax node after it in
+ * the enclosing block. Survives reformatting and identifier renames.
+ */
+export interface AstAnchor {
+  kind: string; // parser node type, e.g. IfStatement or if_statement
+  parentKind: string;
+  indexInParent: number; // among the parent's syntax children, comments excluded
+  fingerprint: string; // hash of the node's leading tokens, identifiers and literals normalized
+  lineOffset: number; // node start line minus comment line
+}
+
 export type FlowLoadStatus = 'loaded' | 'partial' | 'notLoaded' | 'duplicates' | 'moved' | 'missing';
 
 export interface DuplicateEdge {
   currentNode: string;
   nextNode: string;
-  locations: Array<{ filePath: string; lineNumber: number }>;
+  locations: Array<{ filePath: string; lineNumber: number; column: number }>;
 }
 
 export interface MovedEdge {
@@ -186,6 +336,9 @@ export interface MissingEdge {
 
 export interface FlowSummary extends FlowGraph {
   id: string;
+  folder: string; // id (URI) of the workspace folder whose DB/comments this summary describes
+  folderName: string; // display only; names are not unique across roots
+  fromUnsavedBuffer: boolean; // some of this flow's comments are in editors with unsaved changes
   status: FlowLoadStatus;
   present: number;
   total: number;
@@ -193,21 +346,41 @@ export interface FlowSummary extends FlowGraph {
   declaredCross: boolean;
   isCross: boolean;
   dirty: boolean; // code differs from DB
+  description?: string;
+  tags: string[];
+  owner?: string;
+  nodeDescriptions: Record<string, string>;
+  startNodes: string[];
+  endNodes: string[];
+  unreachable: string[]; // nodes no start node leads to (only checked when starts are declared)
+  deadEnds: string[]; // non-end nodes without outgoing edges (only checked when ends are declared)
   duplicates: DuplicateEdge[];
   moved: MovedEdge[];
   missing: MissingEdge[];
 }
 
 export interface MissingEdgeCandidates {
+  folder: string;
   flowName: string;
   edgeKey: string; // currentNode|nextNode
   candidates: MatchCandidate[];
+  explanation?: MatchExplanation;
+}
+
+/** Remap results for one DB flow, as listed in the hydration view. */
+export interface HydrationResults {
+  folder: string;
+  flowName: string;
+  annotations: HydratedAnnotation[];
+  ref?: string; // remapped onto this git ref; read-only, nothing can be applied
 }
 
 export interface MovedEdgeCandidates {
+  folder: string;
   flowName: string;
   edgeKey: string; // currentNode|nextNode
   candidates: MatchCandidate[];
+  explanation?: MatchExplanation;
 }
 
 export type ExtensionMessage =
@@ -224,13 +397,53 @@ export type ExtensionMessage =
   | {
       type: 'movedEdgeCandidates';
       data: MovedEdgeCandidates;
+    }
+  | {
+      type: 'hydrationResults';
+      data: HydrationResults | null; // null clears the view
+    }
+  | {
+      type: 'overlaysChanged';
+      flowKeys: string[]; // folder|flowName of every flow shown as an editor overlay
     };
 
 export type WebviewMessage =
-  | { type: 'openLocation'; filePath: string; lineNumber: number }
+  | { type: 'openLocation'; filePath: string; lineNumber: number; folder?: string; ref?: string }
   | { type: 'requestFlows' }
-  | { type: 'writeFlowToDb'; flowName: string }
-  | { type: 'findMissingEdgeCandidates'; flowName: string; edge: MissingEdge }
-  | { type: 'insertMissingComment'; flowName: string; edge: MissingEdge }
-  | { type: 'insertAtCandidate'; flowName: string; edge: MissingEdge; line: number }
-  | { type: 'findMovedEdgeCandidates'; flowName: string; edge: MovedEdge };
+  | { type: 'writeFlowToDb'; flowName: string; folder: string }
+  | { type: 'findMissingEdgeCandidates'; flowName: string; folder: string; edge: MissingEdge }
+  | { type: 'insertMissingComment'; flowName: string; folder: string; edge: MissingEdge }
+  | {
+      type: 'insertAtCandidate';
+      flowName: string;
+      folder: string;
+      edge: MissingEdge;
+      line: number;
+      filePath?: string; // candidate in another file than the DB location
+    }
+  | { type: 'findMovedEdgeCandidates'; flowName: string; folder: string; edge: MovedEdge }
+  | { type: 'acceptMovedSource'; flowName: string; folder: string; edge: MovedEdge }
+  | {
+      type: 'moveCommentToCandidate';
+      flowName: string;
+      folder: string;
+      edge: MovedEdge;
+      line: number;
+      filePath?: string; // candidate in another file than the DB location
+    }
+  | { type: 'acceptAllMovedSources'; flowName: string; folder: string }
+  | { type: 'moveAllMovedToCandidates'; flowName: string; folder: string }
+  | { type: 'traceAnnotationHistory'; flowName: string; folder: string; edge: MissingEdge }
+  | { type: 'hydrateFlow'; flowName: string; folder: string }
+  | { type: 'hydrateFlowAtRef'; flowName: string; folder: string }
+  | { type: 'applyAutoResolutions'; flowName: string; folder: string }
+  | {
+      type: 'applyHydrationCandidate';
+      flowName: string;
+      folder: string;
+      annotationId: string;
+      line: number;
+      filePath?: string; // candidate in another file than the annotation's
+    }
+  | { type: 'clearHydration' }
+  | { type: 'toggleFlowOverlay'; flowName: string; folder: string };
@@ -1,5 +1,6 @@
 import { useEffect } from 'react';
 import FlowList from './components/FlowList';
+import HydrationPanel from './components/HydrationPanel';
 import NodePopup from './components/NodePopup';
 import { useFlowStore } from './store';
 import type { ExtensionMessage } from './types';
@@ -13,6 +14,9 @@ function App() {
   const malformed = useFlowStore((state) => state.malformed);
   const setMissingCandidates = useFlowStore((state) => state.setMissingCandidates);
   const setMovedCandidates = useFlowStore((state) => state.setMovedCandidates);
+  const hydration = useFlowStore((state) => state.hydration);
+  const setHydration = useFlowStore((state) => state.setHydration);
+  const setOverlays = useFlowStore((state) => state.setOverlays);
   const selectedNode = useFlowStore((state) => state.selectedNode);
   const setFlows = useFlowStore((state) => state.setFlows);
   const setSessionId = useFlowStore((state) => state.setSessionId);
@@ -35,6 +39,12 @@ function App() {
         console.log('webview movedEdgeCandidates', message.data.flowName, message.data.candidates.length);
         setMovedCandidates(message.data);
       }
+      if (message?.type === 'hydrationResults') {
+        setHydration(message.data);
+      }
+      if (message?.type === 'overlaysChanged') {
+        setOverlays(message.flowKeys);
+      }
     };
 
     window.addEventListener('message', handler);
@@ -43,11 +53,16 @@ function App() {
     return () => {
       window.removeEventListener('message', handler);
     };
-  }, [setFlows, setSessionId, setMissingCandidates, setMovedCandidates]);
+  }, [setFlows, setSessionId, setMissingCandidates, setMovedCandidates, setHydration, setOverlays]);
 
-  const handleOpenLocation = (filePath: string, lineNumber: number) => {
+  const handleOpenLocation = (
+    filePath: string,
+    lineNumber: number,
+    folder?: string,
+    ref?: string
+  ) => {
     console.log('handleOpenLocation', filePath, lineNumber);
-    vscode?.postMessage({ type: 'openLocation', filePath, lineNumber });
+    vscode?.postMessage({ type: 'openLocation', filePath, lineNumber, folder, ref });
   };
 
   return (
@@ -66,6 +81,15 @@ function App() {
         </button>
       </header>
 
+      {hydration && (
+        <HydrationPanel
+          results={hydration}
+          onOpenLocation={(filePath, line) =>
+            handleOpenLocation(filePath, line, hydration.folder, hydration.ref)
+          }
+        />
+      )}
+
       {flows.length === 0 && malformed.length === 0 ? (
         <div className="empty-state">
           <div className="empty-title">No flow comments found</div>
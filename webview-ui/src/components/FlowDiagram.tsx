@@ -18,6 +18,18 @@ const sanitizeId = (value: string) => {
 
 const escapeLabel = (value: string) => value.replace(/"/g, '&quot;');
 
+// Start nodes are stadiums, end nodes double circles, everything else a box
+const nodeShape = (flow: FlowSummary, node: string) => {
+  const label = `"${escapeLabel(node)}"`;
+  if (flow.startNodes.includes(node)) {
+    return `([${label}])`;
+  }
+  if (flow.endNodes.includes(node)) {
+    return `(((${label})))`;
+  }
+  return `[${label}]`;
+};
+
 const buildMermaidDefinition = (
   flow: FlowSummary
 ): { definition: string; idToNode: Map<string, string> } => {
@@ -27,7 +39,7 @@ const buildMermaidDefinition = (
   for (const node of flow.nodes) {
     const id = sanitizeId(node);
     idMap.set(id, node);
-    lines.push(`  ${id}["${escapeLabel(node)}"]`);
+    lines.push(`  ${id}${nodeShape(flow, node)}`);
   }
 
   for (const edge of flow.edges) {
@@ -35,13 +47,17 @@ const buildMermaidDefinition = (
     const toId = sanitizeId(edge.nextPos);
     if (!idMap.has(fromId)) {
       idMap.set(fromId, edge.currentPos);
-      lines.push(`  ${fromId}["${escapeLabel(edge.currentPos)}"]`);
+      lines.push(`  ${fromId}${nodeShape(flow, edge.currentPos)}`);
     }
     if (!idMap.has(toId)) {
       idMap.set(toId, edge.nextPos);
-      lines.push(`  ${toId}["${escapeLabel(edge.nextPos)}"]`);
+      lines.push(`  ${toId}${nodeShape(flow, edge.nextPos)}`);
     }
-    lines.push(`  ${fromId} --> ${toId}`);
+    lines.push(
+      edge.label
+        ? `  ${fromId} -->|"${escapeLabel(edge.label)}"| ${toId}`
+        : `  ${fromId} --> ${toId}`
+    );
   }
 
   return { definition: lines.join('\n'), idToNode: idMap };
@@ -66,6 +82,7 @@ const FlowDiagram: React.FC<Props> = ({ flow, onNodeClick }) => {
     () => buildMermaidDefinition(flow),
     [flow]
   );
+  const nodeDescriptions = flow.nodeDescriptions;
 
   // Keep the callback ref updated (in an effect to satisfy React rules)
   useEffect(() => {
@@ -174,11 +191,20 @@ const FlowDiagram: React.FC<Props> = ({ flow, onNodeClick }) => {
           svgElement.style.height = '100%';
           svgElement.style.maxWidth = 'none';
 
-          // Add click listeners to all node elements
+          // Add click listeners and description tooltips to all node elements
           const nodes = svgElement.querySelectorAll('.node');
           nodes.forEach(node => {
             node.addEventListener('click', handleNodeClick as EventListener);
             (node as HTMLElement).style.cursor = 'pointer';
+
+            const nodeName = idToNode.get(node.id) ||
+              [...idToNode.entries()].find(([key]) => node.id.includes(key))?.[1];
+            const description = nodeName ? nodeDescriptions[nodeName] : undefined;
+            if (description) {
+              const title = document.createElementNS('http://www.w3.org/2000/svg', 'title');
+              title.textContent = `${nodeName}: ${description}`;
+              node.appendChild(title);
+            }
           });
 
           panZoomRef.current = svgPanZoom(svgElement, {
@@ -222,7 +248,7 @@ const FlowDiagram: React.FC<Props> = ({ flow, onNodeClick }) => {
         container.innerHTML = '';
       }
     };
-  }, [chartId, definition, idToNode]);
+  }, [chartId, definition, idToNode, nodeDescriptions]);
 
   return <div className="diagram" ref={containerRef} />;
 };
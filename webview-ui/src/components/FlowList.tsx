@@ -1,8 +1,10 @@
+import { useState } from 'react';
 import type { FlowSummary } from '../types';
-import { useFlowStore } from '../store';
+import { flowKey, useFlowStore } from '../store';
 import FlowDiagram from './FlowDiagram';
 import vscode from '../vscode';
 import DuplicatesPanel from './DuplicatesPanel';
+import GraphIssuesPanel from './GraphIssuesPanel';
 import MovedNodesPanel from './MovedNodesPanel';
 import MissingEdgesPanel from './MissingEdgesPanel';
 
@@ -16,40 +18,108 @@ const FlowList: React.FC<Props> = ({ flows }) => {
   const selectNode = useFlowStore((state) => state.selectNode);
   const missingCandidates = useFlowStore((state) => state.missingCandidates);
   const movedCandidates = useFlowStore((state) => state.movedCandidates);
+  const overlays = useFlowStore((state) => state.overlays);
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
 
   if (flows.length === 0) {
     return null;
   }
 
+  const allTags = Array.from(new Set(flows.flatMap((flow) => flow.tags))).sort();
+  const activeTag = tagFilter && allTags.includes(tagFilter) ? tagFilter : null;
+  const visibleFlows = activeTag ? flows.filter((flow) => flow.tags.includes(activeTag)) : flows;
+  const multiFolder = new Set(flows.map((flow) => flow.folder)).size > 1;
+
   return (
     <div className="flow-list">
-      {flows.map((flow) => {
-        const isOpen = expanded.has(flow.name);
+      {allTags.length > 0 && (
+        <div className="tag-filter">
+          <span className="tag-filter-label">Tags:</span>
+          {allTags.map((tag) => (
+            <button
+              key={tag}
+              className={`tag-chip${activeTag === tag ? ' active' : ''}`}
+              onClick={() => setTagFilter(activeTag === tag ? null : tag)}
+            >
+              #{tag}
+            </button>
+          ))}
+        </div>
+      )}
+      {visibleFlows.map((flow) => {
+        const key = flowKey(flow.folder, flow.name);
+        const isOpen = expanded.has(key);
+        const openLocation = (filePath: string, line: number) =>
+          vscode?.postMessage({ type: 'openLocation', filePath, lineNumber: line, folder: flow.folder });
         return (
-          <div className="flow-card" key={flow.name}>
+          <div className="flow-card" key={key}>
             <div className="flow-header">
-              <button className="flow-header-main" onClick={() => toggleFlow(flow.name)}>
+              <button className="flow-header-main" onClick={() => toggleFlow(key)}>
                 <div className="flow-meta">
                   <div className="flow-name">
                     {flow.name}
+                    {multiFolder && <span className="badge badge-folder">{flow.folderName}</span>}
                     <span className={`badge status-${flow.status}`}>{flow.status}</span>
                     {flow.dirty && <span className="badge badge-dirty">unsaved</span>}
+                    {flow.fromUnsavedBuffer && (
+                      <span className="badge badge-buffer" title="Includes unsaved editor changes">
+                        editing
+                      </span>
+                    )}
                     {flow.declaredCross && <span className="badge badge-cross">cross</span>}
                   </div>
+                  {flow.description && <div className="flow-description">{flow.description}</div>}
                   <div className="flow-subtitle">
                     {flow.nodes.length} nodes · {flow.edges.length} edges · {flow.present}/
                     {flow.total} loaded{flow.extras > 0 ? ` · ${flow.extras} extra` : ''}
+                    {flow.owner ? ` · ${flow.owner}` : ''}
                   </div>
+                  {flow.tags.length > 0 && (
+                    <div className="flow-tags">
+                      {flow.tags.map((tag) => (
+                        <span key={tag} className="tag-chip">
+                          #{tag}
+                        </span>
+                      ))}
+                    </div>
+                  )}
                 </div>
                 <div className="chevron" aria-hidden>
                   {isOpen ? '▾' : '▸'}
                 </div>
               </button>
               <div className="flow-actions">
+                {flow.total > 0 && (
+                  <button
+                    className="ghost-button"
+                    title="Remap this flow's DB annotations onto the current code"
+                    onClick={() => vscode?.postMessage({ type: 'hydrateFlow', flowName: flow.name, folder: flow.folder })}
+                  >
+                    ⇢ Hydrate
+                  </button>
+                )}
+                {flow.total > 0 && (
+                  <button
+                    className="ghost-button"
+                    title="Remap this flow's DB annotations onto another branch, tag or commit without checking it out"
+                    onClick={() => vscode?.postMessage({ type: 'hydrateFlowAtRef', flowName: flow.name, folder: flow.folder })}
+                  >
+                    ⇢ At Ref…
+                  </button>
+                )}
+                {flow.total > 0 && (
+                  <button
+                    className={`ghost-button${overlays.has(key) ? ' active' : ''}`}
+                    title="Show this flow's DB annotations as editor decorations without writing comments"
+                    onClick={() => vscode?.postMessage({ type: 'toggleFlowOverlay', flowName: flow.name, folder: flow.folder })}
+                  >
+                    {overlays.has(key) ? '◉ Overlay' : '○ Overlay'}
+                  </button>
+                )}
                 <button
                   className="ghost-button"
                   title="Write this flow to DB (export only this flow)"
-                  onClick={() => vscode?.postMessage({ type: 'writeFlowToDb', flowName: flow.name })}
+                  onClick={() => vscode?.postMessage({ type: 'writeFlowToDb', flowName: flow.name, folder: flow.folder })}
                 >
                   ⬇︎ DB
                 </button>
@@ -61,45 +131,84 @@ const FlowList: React.FC<Props> = ({ flows }) => {
                   flow={flow}
                   onNodeClick={(nodeName) => {
                     const occurrences = flow.edges.filter((edge) => edge.currentPos === nodeName);
-                    if (occurrences.length === 1) {
-                      vscode?.postMessage({ type: 'openLocation', filePath: occurrences[0].filePath, lineNumber: occurrences[0].lineNumber });
+                    // A fan-out comment yields several edges at one location; count locations, not edges
+                    const locations = new Set(occurrences.map((edge) => `${edge.filePath}:${edge.lineNumber}`));
+                    if (locations.size === 1) {
+                      openLocation(occurrences[0].filePath, occurrences[0].lineNumber);
                     } else {
-                      selectNode({ flowName: flow.name, nodeName });
+                      selectNode({ folder: flow.folder, flowName: flow.name, nodeName });
                     }
                   }}
                 />
+                <GraphIssuesPanel
+                  unreachable={flow.unreachable}
+                  deadEnds={flow.deadEnds}
+                  onSelectNode={(nodeName) =>
+                    selectNode({ folder: flow.folder, flowName: flow.name, nodeName })
+                  }
+                />
                 <DuplicatesPanel
                   duplicates={flow.duplicates}
-                  onOpenLocation={(filePath, line) =>
-                    vscode?.postMessage({ type: 'openLocation', filePath, lineNumber: line })
-                  }
+                  onOpenLocation={openLocation}
                 />
                 <MovedNodesPanel
+                  folder={flow.folder}
                   flowName={flow.name}
                   moved={flow.moved}
                   movedCandidates={movedCandidates}
-                  onOpenLocation={(filePath, line) =>
-                    vscode?.postMessage({ type: 'openLocation', filePath, lineNumber: line })
-                  }
+                  onOpenLocation={openLocation}
                   onFindCandidates={(edge) => {
                     vscode?.postMessage({
                       type: 'findMovedEdgeCandidates',
                       flowName: flow.name,
+                      folder: flow.folder,
+                      edge,
+                    });
+                  }}
+                  onAcceptSource={(edge) => {
+                    vscode?.postMessage({
+                      type: 'acceptMovedSource',
+                      flowName: flow.name,
+                      folder: flow.folder,
+                      edge,
+                    });
+                  }}
+                  onMoveToCandidate={(edge, line, filePath) => {
+                    vscode?.postMessage({
+                      type: 'moveCommentToCandidate',
+                      flowName: flow.name,
+                      folder: flow.folder,
                       edge,
+                      line,
+                      filePath,
+                    });
+                  }}
+                  onAcceptAll={() => {
+                    vscode?.postMessage({
+                      type: 'acceptAllMovedSources',
+                      flowName: flow.name,
+                      folder: flow.folder,
+                    });
+                  }}
+                  onMoveAll={() => {
+                    vscode?.postMessage({
+                      type: 'moveAllMovedToCandidates',
+                      flowName: flow.name,
+                      folder: flow.folder,
                     });
                   }}
                 />
                 <MissingEdgesPanel
+                  folder={flow.folder}
                   flowName={flow.name}
                   missing={flow.missing}
                   missingCandidates={missingCandidates}
-                  onOpenLocation={(filePath, line) =>
-                    vscode?.postMessage({ type: 'openLocation', filePath, lineNumber: line })
-                  }
+                  onOpenLocation={openLocation}
                   onFindCandidates={(edge) => {
                     vscode?.postMessage({
                       type: 'findMissingEdgeCandidates',
                       flowName: flow.name,
+                      folder: flow.folder,
                       edge,
                     });
                   }}
@@ -107,15 +216,26 @@ const FlowList: React.FC<Props> = ({ flows }) => {
                     vscode?.postMessage({
                       type: 'insertMissingComment',
                       flowName: flow.name,
+                      folder: flow.folder,
                       edge,
                     });
                   }}
-                  onInsertAtCandidate={(edge, line) => {
+                  onInsertAtCandidate={(edge, line, filePath) => {
                     vscode?.postMessage({
                       type: 'insertAtCandidate',
                       flowName: flow.name,
+                      folder: flow.folder,
                       edge,
                       line,
+                      filePath,
+                    });
+                  }}
+                  onTraceHistory={(edge) => {
+                    vscode?.postMessage({
+                      type: 'traceAnnotationHistory',
+                      flowName: flow.name,
+                      folder: flow.folder,
+                      edge,
                     });
                   }}
                 />
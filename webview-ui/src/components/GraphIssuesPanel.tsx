@@ -0,0 +1,50 @@
+interface Props {
+  unreachable: string[];
+  deadEnds: string[];
+  onSelectNode: (nodeName: string) => void;
+}
+
+const GraphIssuesPanel: React.FC<Props> = ({ unreachable, deadEnds, onSelectNode }) => {
+  const count = unreachable.length + deadEnds.length;
+  if (count === 0) {
+    return null;
+  }
+
+  const groups = [
+    { title: 'Unreachable from any start node', nodes: unreachable },
+    { title: 'No outgoing edge (not an end node)', nodes: deadEnds },
+  ].filter((group) => group.nodes.length > 0);
+
+  return (
+    <div className="panel warning">
+      <div className="panel-head">
+        <span>Graph issues ({count})</span>
+      </div>
+      <div className="panel-body">
+        {groups.map((group) => (
+          <div className="issue-card" key={group.title}>
+            <div className="issue-title">{group.title}</div>
+            <div className="candidate-list">
+              {group.nodes.map((node) => (
+                <div className="candidate-row" key={node}>
+                  <div className="candidate-meta">{node}</div>
+                  <div className="candidate-actions">
+                    <button
+                      type="button"
+                      className="ghost-button"
+                      onClick={() => onSelectNode(node)}
+                    >
+                      Show
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default GraphIssuesPanel;
@@ -0,0 +1,179 @@
+import type { HydratedAnnotation, HydrationResults, MissingEdge } from '../types';
+import vscode from '../vscode';
+import MatchExplanationView from './MatchExplanationView';
+
+interface Props {
+  results: HydrationResults;
+  onOpenLocation: (filePath: string, line: number) => void;
+}
+
+const percent = (value: number) => `${(value * 100).toFixed(0)}%`;
+
+const UNMAPPED_REASONS: Record<string, string> = {
+  'no-match': 'no matching code found',
+  'file-missing': 'file no longer exists',
+  'git-missing': 'exported commit not in git history',
+};
+
+const HydrationPanel: React.FC<Props> = ({ results, onOpenLocation }) => {
+  const { folder, flowName, annotations, ref } = results;
+  const autoCount = annotations.filter((item) => item.resolution.kind === 'auto').length;
+  const candidateCount = annotations.filter((item) => item.resolution.kind === 'candidates').length;
+  const unmappedCount = annotations.length - autoCount - candidateCount;
+
+  const applyCandidate = (item: HydratedAnnotation, line: number, filePath?: string) =>
+    vscode?.postMessage({
+      type: 'applyHydrationCandidate',
+      flowName,
+      folder,
+      annotationId: item.annotation.id,
+      line,
+      filePath,
+    });
+
+  const traceHistory = ({ annotation }: HydratedAnnotation) => {
+    const edge: MissingEdge = {
+      currentNode: annotation.currentNode,
+      nextNode: annotation.nextNode,
+      dbLocation: {
+        filePath: annotation.filePath,
+        lineNumber: annotation.line,
+        contextBefore: annotation.contextBefore,
+        contextLine: annotation.contextLine,
+        contextAfter: annotation.contextAfter,
+      },
+      rawComment: annotation.rawComment,
+    };
+    vscode?.postMessage({ type: 'traceAnnotationHistory', flowName, folder, edge });
+  };
+
+  return (
+    <div className="panel info hydration-panel">
+      <div className="panel-head hydration-head">
+        <span>
+          Hydration: {flowName}
+          {ref ? ` @ ${ref}` : ''} · {autoCount} auto · {candidateCount} to review · {unmappedCount}{' '}
+          unmapped
+        </span>
+        <div className="candidate-actions">
+          {!ref && (
+            <button
+              type="button"
+              className="ghost-button"
+              disabled={autoCount === 0}
+              title="Write every automatically resolved comment at its resolved line"
+              onClick={() => vscode?.postMessage({ type: 'applyAutoResolutions', flowName, folder })}
+            >
+              Apply All Auto
+            </button>
+          )}
+          <button
+            type="button"
+            className="ghost-button"
+            onClick={() => vscode?.postMessage({ type: 'clearHydration' })}
+          >
+            Close
+          </button>
+        </div>
+      </div>
+      <div className="panel-body">
+        {annotations.map((item) => {
+          const { annotation, resolution } = item;
+          return (
+            <div className="issue-card" key={annotation.id}>
+              <div className="issue-title">
+                {annotation.currentNode} → {annotation.nextNode}
+                <span className="missing-edge-file">
+                  {' '}
+                  {annotation.filePath}:{annotation.line}
+                </span>
+              </div>
+
+              {resolution.kind === 'auto' && (
+                <div className="candidate-row">
+                  <div className="candidate-meta">
+                    {resolution.filePath && (
+                      <span className="candidate-file">{resolution.filePath}:</span>
+                    )}
+                    line {resolution.line} · {percent(resolution.confidence)} · {resolution.source}
+                  </div>
+                  <div className="candidate-actions">
+                    <button
+                      type="button"
+                      className="ghost-button"
+                      onClick={() =>
+                        onOpenLocation(resolution.filePath ?? annotation.filePath, resolution.line)
+                      }
+                    >
+                      Open
+                    </button>
+                  </div>
+                </div>
+              )}
+
+              {resolution.kind === 'candidates' && (
+                <div className="candidate-list">
+                  {resolution.candidates.map((c) => (
+                    <div className="candidate-row" key={`${c.filePath ?? ''}:${c.line}`}>
+                      <div className="candidate-meta">
+                        {c.filePath && <span className="candidate-file">{c.filePath}:</span>}
+                        line {c.line} · {percent(c.score)} · {c.source}
+                      </div>
+                      <div className="candidate-actions">
+                        <button
+                          type="button"
+                          className="ghost-button"
+                          onClick={() => onOpenLocation(c.filePath ?? annotation.filePath, c.line)}
+                        >
+                          Open
+                        </button>
+                        {!ref && (
+                          <button
+                            type="button"
+                            className="ghost-button"
+                            onClick={() => applyCandidate(item, c.line, c.filePath)}
+                          >
+                            Insert Here
+                          </button>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {resolution.kind === 'unmapped' && (
+                <div className="candidate-row">
+                  <div className="candidate-meta">
+                    Unmapped:{' '}
+                    {ref && resolution.reason === 'file-missing'
+                      ? `file does not exist on ${ref}`
+                      : UNMAPPED_REASONS[resolution.reason] ?? resolution.reason}
+                    {resolution.note ? ` (${resolution.note})` : ''}
+                  </div>
+                  {!ref && (
+                    <div className="candidate-actions">
+                      <button
+                        type="button"
+                        className="ghost-button"
+                        onClick={() => traceHistory(item)}
+                      >
+                        Trace History
+                      </button>
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {resolution.explanation && (
+                <MatchExplanationView explanation={resolution.explanation} />
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default HydrationPanel;
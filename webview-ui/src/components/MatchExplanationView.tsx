@@ -0,0 +1,62 @@
+import { useState } from 'react';
+import type { MatchCandidate, MatchExplanation } from '../types';
+
+interface Props {
+  explanation: MatchExplanation;
+}
+
+const percent = (value: number) => `${(value * 100).toFixed(0)}%`;
+
+const describe = (candidate: MatchCandidate) =>
+  `${candidate.filePath ? `${candidate.filePath}:` : 'line '}${candidate.line} · ` +
+  `${percent(candidate.score)} · ${candidate.source}`;
+
+const MatchExplanationView: React.FC<Props> = ({ explanation }) => {
+  const [open, setOpen] = useState(false);
+  const { stages, requestedSymbol, scopedTo, thresholds, winner, runnerUp, decision } = explanation;
+
+  let scope = 'whole file';
+  if (scopedTo) {
+    scope = `symbol ${scopedTo}`;
+  } else if (requestedSymbol) {
+    scope = `whole file (symbol ${requestedSymbol} not found)`;
+  }
+
+  return (
+    <div className="match-explanation">
+      <button type="button" className="match-explanation-toggle" onClick={() => setOpen(!open)}>
+        {open ? '▾' : '▸'} why?
+      </button>
+      {open && (
+        <div className="match-explanation-body">
+          <div className="match-explanation-decision">{decision}</div>
+          <table className="match-stages">
+            <tbody>
+              {stages.map((report) => (
+                <tr key={report.stage} className={report.ran ? '' : 'skipped'}>
+                  <td>{report.stage}</td>
+                  <td>
+                    {report.ran
+                      ? `${report.matches} match${report.matches === 1 ? '' : 'es'}` +
+                        (report.bestScore !== undefined ? `, best ${percent(report.bestScore)}` : '')
+                      : 'not run'}
+                  </td>
+                  <td>{report.note}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <div className="match-explanation-meta">Searched: {scope}</div>
+          {winner && <div className="match-explanation-meta">Winner: {describe(winner)}</div>}
+          {runnerUp && <div className="match-explanation-meta">Runner-up: {describe(runnerUp)}</div>}
+          <div className="match-explanation-meta">
+            Thresholds: strict {percent(thresholds.strict)} · candidate{' '}
+            {percent(thresholds.candidate)} · fuzzy minimum {percent(thresholds.fuzzyMin)}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MatchExplanationView;
@@ -1,34 +1,42 @@
 import { useState } from 'react';
-import type { MissingEdge, MissingEdgeCandidates, MatchCandidate } from '../types';
+import type { MissingEdge, MissingEdgeCandidates, MatchCandidate, MatchExplanation } from '../types';
+import { flowKey } from '../store';
 import CodeViewer from './CodeViewer';
+import MatchExplanationView from './MatchExplanationView';
 
 interface Props {
+  folder: string;
   flowName: string;
   missing: MissingEdge[];
   missingCandidates: Map<string, MissingEdgeCandidates>;
   onOpenLocation: (filePath: string, line: number) => void;
   onFindCandidates: (edge: MissingEdge) => void;
   onInsertComment: (edge: MissingEdge) => void;
-  onInsertAtCandidate: (edge: MissingEdge, line: number) => void;
+  onInsertAtCandidate: (edge: MissingEdge, line: number, filePath?: string) => void;
+  onTraceHistory: (edge: MissingEdge) => void;
 }
 
 interface MissingEdgeItemProps {
   flowName: string;
   edge: MissingEdge;
   candidates?: MatchCandidate[];
+  explanation?: MatchExplanation;
   onOpenLocation: (filePath: string, line: number) => void;
   onFindCandidates: (edge: MissingEdge) => void;
   onInsertComment: (edge: MissingEdge) => void;
-  onInsertAtCandidate: (edge: MissingEdge, line: number) => void;
+  onInsertAtCandidate: (edge: MissingEdge, line: number, filePath?: string) => void;
+  onTraceHistory: (edge: MissingEdge) => void;
 }
 
 const MissingEdgeItem: React.FC<MissingEdgeItemProps> = ({
   edge,
   candidates,
+  explanation,
   onOpenLocation,
   onFindCandidates,
   onInsertComment,
   onInsertAtCandidate,
+  onTraceHistory,
 }) => {
   const [open, setOpen] = useState(false);
 
@@ -88,6 +96,14 @@ const MissingEdgeItem: React.FC<MissingEdgeItemProps> = ({
             >
               Find Candidates
             </button>
+            <button
+              type="button"
+              className="ghost-button"
+              title="Replay the file's commits to find where this edge stopped matching"
+              onClick={() => onTraceHistory(edge)}
+            >
+              Trace History
+            </button>
           </div>
 
           {candidates && candidates.length > 0 && (
@@ -97,22 +113,23 @@ const MissingEdgeItem: React.FC<MissingEdgeItemProps> = ({
               </div>
               <div className="candidate-list">
                 {candidates.map((c) => (
-                  <div className="candidate-row" key={c.line}>
+                  <div className="candidate-row" key={`${c.filePath ?? ''}:${c.line}`}>
                     <div className="candidate-meta">
+                      {c.filePath && <span className="candidate-file">{c.filePath}:</span>}
                       line {c.line} · {(c.score * 100).toFixed(0)}% · {c.source}
                     </div>
                     <div className="candidate-actions">
                       <button
                         type="button"
                         className="ghost-button"
-                        onClick={() => onOpenLocation(edge.dbLocation.filePath, c.line)}
+                        onClick={() => onOpenLocation(c.filePath ?? edge.dbLocation.filePath, c.line)}
                       >
                         Open
                       </button>
                       <button
                         type="button"
                         className="ghost-button"
-                        onClick={() => onInsertAtCandidate(edge, c.line)}
+                        onClick={() => onInsertAtCandidate(edge, c.line, c.filePath)}
                       >
                         Insert Here
                       </button>
@@ -128,6 +145,8 @@ const MissingEdgeItem: React.FC<MissingEdgeItemProps> = ({
               <div className="context-label">No candidates found</div>
             </div>
           )}
+
+          {explanation && <MatchExplanationView explanation={explanation} />}
         </div>
       )}
     </div>
@@ -135,6 +154,7 @@ const MissingEdgeItem: React.FC<MissingEdgeItemProps> = ({
 };
 
 const MissingEdgesPanel: React.FC<Props> = ({
+  folder,
   flowName,
   missing,
   missingCandidates,
@@ -142,6 +162,7 @@ const MissingEdgesPanel: React.FC<Props> = ({
   onFindCandidates,
   onInsertComment,
   onInsertAtCandidate,
+  onTraceHistory,
 }) => {
   if (missing.length === 0) {
     return null;
@@ -155,7 +176,7 @@ const MissingEdgesPanel: React.FC<Props> = ({
       <div className="panel-body missing-edges-list">
         {missing.map((edge) => {
           const edgeKey = `${edge.currentNode}|${edge.nextNode}`;
-          const cacheKey = `${flowName}|${edgeKey}`;
+          const cacheKey = `${flowKey(folder, flowName)}|${edgeKey}`;
           const candidateData = missingCandidates.get(cacheKey);
           return (
             <MissingEdgeItem
@@ -163,10 +184,12 @@ const MissingEdgesPanel: React.FC<Props> = ({
               flowName={flowName}
               edge={edge}
               candidates={candidateData?.candidates}
+              explanation={candidateData?.explanation}
               onOpenLocation={onOpenLocation}
               onFindCandidates={onFindCandidates}
               onInsertComment={onInsertComment}
               onInsertAtCandidate={onInsertAtCandidate}
+              onTraceHistory={onTraceHistory}
             />
           );
         })}
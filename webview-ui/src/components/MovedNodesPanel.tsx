@@ -1,27 +1,40 @@
 import { useState } from 'react';
-import type { MovedEdge, MatchCandidate, MovedEdgeCandidates } from '../types';
+import type { MovedEdge, MatchCandidate, MovedEdgeCandidates, MatchExplanation } from '../types';
+import { flowKey } from '../store';
 import CodeViewer from './CodeViewer';
+import MatchExplanationView from './MatchExplanationView';
 
 interface Props {
+  folder: string;
   flowName: string;
   moved: MovedEdge[];
   movedCandidates: Map<string, MovedEdgeCandidates>;
   onOpenLocation: (filePath: string, line: number) => void;
   onFindCandidates: (edge: MovedEdge) => void;
+  onAcceptSource: (edge: MovedEdge) => void;
+  onMoveToCandidate: (edge: MovedEdge, line: number, filePath?: string) => void;
+  onAcceptAll: () => void;
+  onMoveAll: () => void;
 }
 
 interface MovedEdgeItemProps {
   edge: MovedEdge;
   candidates?: MatchCandidate[];
+  explanation?: MatchExplanation;
   onOpenLocation: (filePath: string, line: number) => void;
   onFindCandidates: (edge: MovedEdge) => void;
+  onAcceptSource: (edge: MovedEdge) => void;
+  onMoveToCandidate: (edge: MovedEdge, line: number, filePath?: string) => void;
 }
 
 const MovedEdgeItem: React.FC<MovedEdgeItemProps> = ({
   edge,
   candidates,
+  explanation,
   onOpenLocation,
   onFindCandidates,
+  onAcceptSource,
+  onMoveToCandidate,
 }) => {
   const [open, setOpen] = useState(false);
   const [showDbContext, setShowDbContext] = useState(false);
@@ -86,6 +99,14 @@ const MovedEdgeItem: React.FC<MovedEdgeItemProps> = ({
               >
                 Open
               </button>
+              <button
+                type="button"
+                className="ghost-button"
+                title="Update only this edge's DB location, context and commit to match the comment"
+                onClick={() => onAcceptSource(edge)}
+              >
+                Accept Source Location
+              </button>
             </div>
           </div>
           <div className="moved-edge-actions">
@@ -105,18 +126,27 @@ const MovedEdgeItem: React.FC<MovedEdgeItemProps> = ({
               </div>
               <div className="candidate-list">
                 {candidates.map((c) => (
-                  <div className="candidate-row" key={c.line}>
+                  <div className="candidate-row" key={`${c.filePath ?? ''}:${c.line}`}>
                     <div className="candidate-meta">
+                      {c.filePath && <span className="candidate-file">{c.filePath}:</span>}
                       line {c.line} · {(c.score * 100).toFixed(0)}% · {c.source}
                     </div>
                     <div className="candidate-actions">
                       <button
                         type="button"
                         className="ghost-button"
-                        onClick={() => onOpenLocation(edge.dbLocation.filePath, c.line)}
+                        onClick={() => onOpenLocation(c.filePath ?? edge.dbLocation.filePath, c.line)}
                       >
                         Open
                       </button>
+                      <button
+                        type="button"
+                        className="ghost-button"
+                        title="Move the comment from its source location to this line and update the DB"
+                        onClick={() => onMoveToCandidate(edge, c.line, c.filePath)}
+                      >
+                        Move Comment Here
+                      </button>
                     </div>
                   </div>
                 ))}
@@ -129,6 +159,8 @@ const MovedEdgeItem: React.FC<MovedEdgeItemProps> = ({
               <div className="context-label">No candidates found</div>
             </div>
           )}
+
+          {explanation && <MatchExplanationView explanation={explanation} />}
         </div>
       )}
     </div>
@@ -136,11 +168,16 @@ const MovedEdgeItem: React.FC<MovedEdgeItemProps> = ({
 };
 
 const MovedNodesPanel: React.FC<Props> = ({
+  folder,
   flowName,
   moved,
   movedCandidates,
   onOpenLocation,
   onFindCandidates,
+  onAcceptSource,
+  onMoveToCandidate,
+  onAcceptAll,
+  onMoveAll,
 }) => {
   if (moved.length === 0) {
     return null;
@@ -148,21 +185,42 @@ const MovedNodesPanel: React.FC<Props> = ({
 
   return (
     <div className="panel info">
-      <div className="panel-head">
+      <div className="panel-head moved-edges-head">
         <span>Moved edges ({moved.length})</span>
+        <div className="candidate-actions">
+          <button
+            type="button"
+            className="ghost-button"
+            title="Update every moved edge's DB location to where its comment is now"
+            onClick={onAcceptAll}
+          >
+            Accept All Sources
+          </button>
+          <button
+            type="button"
+            className="ghost-button"
+            title="Move every moved edge's comment back to its best confident candidate"
+            onClick={onMoveAll}
+          >
+            Move All to Candidates
+          </button>
+        </div>
       </div>
       <div className="panel-body moved-edges-list">
         {moved.map((edge) => {
           const edgeKey = `${edge.currentNode}|${edge.nextNode}`;
-          const cacheKey = `${flowName}|${edgeKey}`;
+          const cacheKey = `${flowKey(folder, flowName)}|${edgeKey}`;
           const candidateData = movedCandidates.get(cacheKey);
           return (
             <MovedEdgeItem
               key={edgeKey}
               edge={edge}
               candidates={candidateData?.candidates}
+              explanation={candidateData?.explanation}
               onOpenLocation={onOpenLocation}
               onFindCandidates={onFindCandidates}
+              onAcceptSource={onAcceptSource}
+              onMoveToCandidate={onMoveToCandidate}
             />
           );
         })}
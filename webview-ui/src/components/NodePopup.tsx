@@ -5,7 +5,7 @@ interface Props {
   flows: FlowSummary[];
   selection: Selection | null;
   onClose: () => void;
-  onOpenLocation: (filePath: string, lineNumber: number) => void;
+  onOpenLocation: (filePath: string, lineNumber: number, folder?: string) => void;
 }
 
 const toFilename = (filePath: string) => filePath.split(/[\\/]/).pop() ?? filePath;
@@ -15,10 +15,13 @@ const NodePopup: React.FC<Props> = ({ flows, selection, onClose, onOpenLocation
     return null;
   }
 
-  const flow = flows.find((f) => f.name === selection.flowName);
+  const flow = flows.find(
+    (f) => f.folder === selection.folder && f.name === selection.flowName
+  );
   const occurrences = flow
     ? flow.edges.filter((edge) => edge.currentPos === selection.nodeName)
     : [];
+  const description = flow?.nodeDescriptions[selection.nodeName];
 
   return (
     <div className="popup-backdrop" onClick={onClose}>
@@ -27,6 +30,7 @@ const NodePopup: React.FC<Props> = ({ flows, selection, onClose, onOpenLocation
           <div>
             <div className="popup-title">{selection.nodeName}</div>
             <div className="popup-subtitle">Flow: {selection.flowName}</div>
+            {description && <div className="popup-description">{description}</div>}
           </div>
           <button className="ghost-button" onClick={onClose} aria-label="Close">
             ✕
@@ -41,11 +45,14 @@ const NodePopup: React.FC<Props> = ({ flows, selection, onClose, onOpenLocation
                 <button
                   key={`${edge.filePath}:${edge.lineNumber}:${edge.nextPos}`}
                   className="location-item"
-                  onClick={() => onOpenLocation(edge.filePath, edge.lineNumber)}
+                  onClick={() => onOpenLocation(edge.filePath, edge.lineNumber, selection.folder)}
                 >
                   <div className="location-main">
                     <span className="dot" aria-hidden />
-                    <span className="location-next">→ {edge.nextPos}</span>
+                    <span className="location-next">
+                      → {edge.nextPos}
+                      {edge.label ? ` [${edge.label}]` : ''}
+                    </span>
                     <span className="location-name">
                       {toFilename(edge.filePath)}:{edge.lineNumber}
                     </span>
@@ -1,12 +1,22 @@
 import { create } from 'zustand';
-import type { FlowSummary, MalformedComment, MissingEdgeCandidates, MovedEdgeCandidates } from './types';
+import type {
+  FlowSummary,
+  HydrationResults,
+  MalformedComment,
+  MissingEdgeCandidates,
+  MovedEdgeCandidates,
+} from './types';
 import vscode from './vscode';
 
 export interface Selection {
+  folder: string;
   flowName: string;
   nodeName: string;
 }
 
+/** Flow names are only unique within a workspace folder */
+export const flowKey = (folder: string, flowName: string) => `${folder}|${flowName}`;
+
 /** Shape of persisted UI state in VS Code's webview state */
 interface PersistedState {
   sessionId: string;
@@ -17,16 +27,20 @@ interface PersistedState {
 export interface FlowUIStore {
   sessionId: string | null;
   flows: FlowSummary[];
-  missingCandidates: Map<string, MissingEdgeCandidates>; // key: flowName|currentNode|nextNode
-  movedCandidates: Map<string, MovedEdgeCandidates>; // key: flowName|currentNode|nextNode
+  missingCandidates: Map<string, MissingEdgeCandidates>; // key: folder|flowName|currentNode|nextNode
+  movedCandidates: Map<string, MovedEdgeCandidates>; // key: folder|flowName|currentNode|nextNode
   malformed: MalformedComment[];
-  expandedFlows: Set<string>;
+  expandedFlows: Set<string>; // flowKey values
   selectedNode: Selection | null;
+  hydration: HydrationResults | null;
+  overlays: Set<string>; // flowKey values shown as editor overlays
   setSessionId: (sessionId: string) => void;
   setFlows: (flows: FlowSummary[], malformed: MalformedComment[]) => void;
   setMissingCandidates: (data: MissingEdgeCandidates) => void;
   setMovedCandidates: (data: MovedEdgeCandidates) => void;
-  toggleFlow: (flowName: string) => void;
+  setHydration: (data: HydrationResults | null) => void;
+  setOverlays: (flowKeys: string[]) => void;
+  toggleFlow: (key: string) => void;
   selectNode: (selection: Selection) => void;
   clearSelection: () => void;
 }
@@ -50,6 +64,8 @@ export const useFlowStore = create<FlowUIStore>((set, get) => ({
   malformed: [],
   expandedFlows: new Set<string>(),
   selectedNode: null,
+  hydration: null,
+  overlays: new Set<string>(),
 
   setSessionId: (sessionId: string) => {
     // Check if we have persisted state from the same session
@@ -72,8 +88,9 @@ export const useFlowStore = create<FlowUIStore>((set, get) => ({
     set((state) => {
       const nextExpanded = new Set<string>();
       for (const flow of flows) {
-        if (state.expandedFlows.has(flow.name)) {
-          nextExpanded.add(flow.name);
+        const key = flowKey(flow.folder, flow.name);
+        if (state.expandedFlows.has(key)) {
+          nextExpanded.add(key);
         }
       }
 
@@ -91,7 +108,7 @@ export const useFlowStore = create<FlowUIStore>((set, get) => ({
 
   setMissingCandidates: (data) =>
     set((state) => {
-      const key = `${data.flowName}|${data.edgeKey}`;
+      const key = `${flowKey(data.folder, data.flowName)}|${data.edgeKey}`;
       const next = new Map(state.missingCandidates);
       next.set(key, data);
       return { missingCandidates: next };
@@ -99,19 +116,23 @@ export const useFlowStore = create<FlowUIStore>((set, get) => ({
 
   setMovedCandidates: (data) =>
     set((state) => {
-      const key = `${data.flowName}|${data.edgeKey}`;
+      const key = `${flowKey(data.folder, data.flowName)}|${data.edgeKey}`;
       const next = new Map(state.movedCandidates);
       next.set(key, data);
       return { movedCandidates: next };
     }),
 
-  toggleFlow: (flowName: string) =>
+  setHydration: (data) => set({ hydration: data }),
+
+  setOverlays: (flowKeys) => set({ overlays: new Set(flowKeys) }),
+
+  toggleFlow: (key: string) =>
     set((state) => {
       const expanded = new Set(state.expandedFlows);
-      if (expanded.has(flowName)) {
-        expanded.delete(flowName);
+      if (expanded.has(key)) {
+        expanded.delete(key);
       } else {
-        expanded.add(flowName);
+        expanded.add(key);
       }
       const newState = { ...state, expandedFlows: expanded };
       persistState(newState);
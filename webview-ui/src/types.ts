@@ -4,6 +4,7 @@ export interface FlowEdge {
   nextPos: string;
   filePath: string;
   lineNumber: number;
+  label?: string;
 }
 
 export interface FlowGraph {
@@ -17,7 +18,7 @@ export type FlowLoadStatus = 'loaded' | 'partial' | 'notLoaded' | 'duplicates' |
 export interface DuplicateEdge {
   currentNode: string;
   nextNode: string;
-  locations: Array<{ filePath: string; lineNumber: number }>;
+  locations: Array<{ filePath: string; lineNumber: number; column: number }>;
 }
 
 export interface MovedEdge {
@@ -48,6 +49,9 @@ export interface MissingEdge {
 
 export interface FlowSummary extends FlowGraph {
   id: string;
+  folder: string; // workspace folder id (URI)
+  folderName: string; // display only; names are not unique across roots
+  fromUnsavedBuffer: boolean; // some comments come from editors with unsaved changes
   status: FlowLoadStatus;
   present: number;
   total: number;
@@ -55,6 +59,14 @@ export interface FlowSummary extends FlowGraph {
   declaredCross: boolean;
   isCross: boolean;
   dirty: boolean;
+  description?: string;
+  tags: string[];
+  owner?: string;
+  nodeDescriptions: Record<string, string>;
+  startNodes: string[];
+  endNodes: string[];
+  unreachable: string[];
+  deadEnds: string[];
   duplicates: DuplicateEdge[];
   moved: MovedEdge[];
   missing: MissingEdge[];
@@ -63,6 +75,7 @@ export interface FlowSummary extends FlowGraph {
 export interface MalformedComment {
   filePath: string;
   lineNumber: number;
+  column?: number;
   rawText: string;
   reason: string;
 }
@@ -73,18 +86,76 @@ export interface MatchCandidate {
   source: string;
   snippet?: string;
   symbol?: string;
+  filePath?: string; // set when the match is not in the edge's own file
+}
+
+export interface MatchStageReport {
+  stage: string;
+  ran: boolean;
+  matches: number;
+  bestScore?: number;
+  note?: string;
+}
+
+/** How a remap result was reached; shown in the "why?" sections. */
+export interface MatchExplanation {
+  stages: MatchStageReport[];
+  requestedSymbol?: string;
+  scopedTo?: string; // whole file when unset
+  thresholds: { strict: number; candidate: number; fuzzyMin: number };
+  winner?: MatchCandidate;
+  runnerUp?: MatchCandidate;
+  decision: string;
 }
 
 export interface MissingEdgeCandidates {
+  folder: string;
   flowName: string;
   edgeKey: string; // currentNode|nextNode
   candidates: MatchCandidate[];
+  explanation?: MatchExplanation;
+}
+
+/** The parts of a DB annotation the hydration view shows. */
+export interface Annotation {
+  id: string;
+  filePath: string;
+  line: number;
+  contextBefore: string[];
+  contextLine: string;
+  contextAfter: string[];
+  symbolPath?: string | null;
+  flowName: string;
+  currentNode: string;
+  nextNode: string;
+  label?: string;
+  rawComment: string;
+}
+
+export type ResolutionStatus = (
+  | { kind: 'auto'; line: number; confidence: number; source: string; filePath?: string }
+  | { kind: 'candidates'; candidates: MatchCandidate[] }
+  | { kind: 'unmapped'; reason: 'no-match' | 'file-missing' | 'git-missing'; note?: string }
+) & { explanation?: MatchExplanation };
+
+export interface HydratedAnnotation {
+  annotation: Annotation;
+  resolution: ResolutionStatus;
+}
+
+export interface HydrationResults {
+  folder: string;
+  flowName: string;
+  annotations: HydratedAnnotation[];
+  ref?: string; // remapped onto this git ref; read-only, nothing can be applied
 }
 
 export interface MovedEdgeCandidates {
+  folder: string;
   flowName: string;
   edgeKey: string; // currentNode|nextNode
   candidates: MatchCandidate[];
+  explanation?: MatchExplanation;
 }
 
 export type ExtensionMessage =
@@ -101,14 +172,54 @@ export type ExtensionMessage =
   | {
       type: 'movedEdgeCandidates';
       data: MovedEdgeCandidates;
+    }
+  | {
+      type: 'hydrationResults';
+      data: HydrationResults | null; // null clears the view
+    }
+  | {
+      type: 'overlaysChanged';
+      flowKeys: string[]; // folder|flowName of every flow shown as an editor overlay
     };
 
 export type WebviewMessage =
-  | { type: 'openLocation'; filePath: string; lineNumber: number }
+  | { type: 'openLocation'; filePath: string; lineNumber: number; folder?: string; ref?: string }
   | { type: 'requestFlows' }
-  | { type: 'writeFlowToDb'; flowName: string }
-  | { type: 'findMissingEdgeCandidates'; flowName: string; edge: MissingEdge }
-  | { type: 'insertMissingComment'; flowName: string; edge: MissingEdge }
-  | { type: 'insertAtCandidate'; flowName: string; edge: MissingEdge; line: number }
-  | { type: 'findMovedEdgeCandidates'; flowName: string; edge: MovedEdge };
+  | { type: 'writeFlowToDb'; flowName: string; folder: string }
+  | { type: 'findMissingEdgeCandidates'; flowName: string; folder: string; edge: MissingEdge }
+  | { type: 'insertMissingComment'; flowName: string; folder: string; edge: MissingEdge }
+  | {
+      type: 'insertAtCandidate';
+      flowName: string;
+      folder: string;
+      edge: MissingEdge;
+      line: number;
+      filePath?: string; // candidate in another file than the DB location
+    }
+  | { type: 'findMovedEdgeCandidates'; flowName: string; folder: string; edge: MovedEdge }
+  | { type: 'acceptMovedSource'; flowName: string; folder: string; edge: MovedEdge }
+  | {
+      type: 'moveCommentToCandidate';
+      flowName: string;
+      folder: string;
+      edge: MovedEdge;
+      line: number;
+      filePath?: string; // candidate in another file than the DB location
+    }
+  | { type: 'acceptAllMovedSources'; flowName: string; folder: string }
+  | { type: 'moveAllMovedToCandidates'; flowName: string; folder: string }
+  | { type: 'traceAnnotationHistory'; flowName: string; folder: string; edge: MissingEdge }
+  | { type: 'hydrateFlow'; flowName: string; folder: string }
+  | { type: 'hydrateFlowAtRef'; flowName: string; folder: string }
+  | { type: 'applyAutoResolutions'; flowName: string; folder: string }
+  | {
+      type: 'applyHydrationCandidate';
+      flowName: string;
+      folder: string;
+      annotationId: string;
+      line: number;
+      filePath?: string; // candidate in another file than the annotation's
+    }
+  | { type: 'clearHydration' }
+  | { type: 'toggleFlowOverlay'; flowName: string; folder: string };
 